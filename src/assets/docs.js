@@ -418,6 +418,10 @@ class SearchManager {
       const summaryElement = endpoint.querySelector('.endpoint-summary');
       const methodElement = endpoint.querySelector('.method-badge');
       const tagsData = endpoint.dataset.tags || '';
+      const roles = (endpoint.dataset.roles || '')
+        .split(',')
+        .map((value) => value.trim().toLowerCase())
+        .filter(Boolean);
       
       const path = pathElement ? pathElement.textContent.toLowerCase() : '';
       const summary = summaryElement ? summaryElement.textContent.toLowerCase() : '';
@@ -431,8 +435,8 @@ class SearchManager {
         method.includes(query) ||
         tags.includes(query);
       
-      // Check if endpoint matches role filter
-      const matchesRole = role === 'all' || tags.includes(role.toLowerCase());
+      // Check if endpoint matches role filter (endpoints without roles are open to every role)
+      const matchesRole = role === 'all' || roles.length === 0 || roles.includes(role.toLowerCase());
       
       endpoint.style.display = matchesQuery && matchesRole ? 'block' : 'none';
     });
@@ -443,6 +447,12 @@ class SearchManager {
         '.endpoint-card[style="display: block"], .endpoint-card:not([style*="display: none"])',
       );
       module.style.display = visibleEndpoints.length > 0 ? 'block' : 'none';
+
+      // Keep the sidebar in step with the content
+      const navItem = module.id ? document.querySelector(`.nav-item[href="#${CSS.escape(module.id)}"]`) : null;
+      if (navItem) {
+        navItem.style.display = visibleEndpoints.length > 0 ? '' : 'none';
+      }
     });
 
     // Hide sections with no visible modules
@@ -669,15 +679,16 @@ class ApiTesterManager {
     const method = button.dataset.method.toUpperCase();
     const path = button.dataset.path;
     const endpointId = button.dataset.endpointId;
+    const server = button.dataset.server;
     
     // Store current endpoint reference
-    this.currentEndpoint = { method, path, endpointId };
+    this.currentEndpoint = { method, path, endpointId, server };
     
     // Update panel title with endpoint info
     this.updatePanelTitle(method, path);
     
     // Populate panel with endpoint data from DOM
-    this.populatePanel(method, path, endpointId);
+    this.populatePanel(method, path, endpointId, server);
     
     // Show panel
     this.panel.classList.add('open');
@@ -714,17 +725,17 @@ class ApiTesterManager {
     }
   }
 
-  populatePanel(method, path, endpointId) {
+  populatePanel(method, path, endpointId, server) {
     // Set method
     const methodSelect = document.getElementById('requestMethod');
     if (methodSelect) {
       methodSelect.value = method;
     }
 
-    // Set URL with BASE_URL variable for replacement
+    // Set URL with the service server or BASE_URL variable for replacement
     const urlInput = document.getElementById('requestUrl');
     if (urlInput) {
-      const fullUrl = `{BASE_URL}${path}`;
+      const fullUrl = `${server || '{BASE_URL}'}${path}`;
       urlInput.value = this.replaceUrlVariables(fullUrl);
     }
 
@@ -732,10 +743,13 @@ class ApiTesterManager {
     const endpointData = this.extractEndpointDataFromDOM(endpointId);
     
     // Populate headers table
-    this.populateHeadersTable(endpointData.headers);
+    this.populateHeadersTable(endpointData.headers, endpointData.contentType);
     
     // Always populate query parameters table (for all methods)
     this.populateQueryTable(endpointData.parameters);
+
+    // Apply the credentials of the endpoint's security requirement
+    this.applySecurity(endpointData.security);
     
     // Pre-fill request body
     this.populateRequestBody(endpointData.requestBody);
@@ -760,10 +774,19 @@ class ApiTesterManager {
     // Find the endpoint section in the DOM
     const endpointSection = document.getElementById(endpointId);
     if (!endpointSection) {
-      return { headers: [], parameters: [], requestBody: null };
+      return { headers: [], parameters: [], requestBody: null, contentType: null, security: [] };
     }
 
-    const data = { headers: [], parameters: [], requestBody: null };
+    const data = { headers: [], parameters: [], requestBody: null, contentType: null, security: [] };
+
+    // Security requirements rendered by the server as JSON
+    if (endpointSection.dataset.security) {
+      try {
+        data.security = JSON.parse(endpointSection.dataset.security);
+      } catch (e) {
+        console.warn('Failed to parse security requirements:', e);
+      }
+    }
 
     // Extract request headers from detail sections
     const detailSections = endpointSection.querySelectorAll('.detail-section');
@@ -785,7 +808,12 @@ class ApiTesterManager {
       }
       
       if (title && title.textContent.includes('Request Body')) {
-        const codeBlock = section.querySelector('.code-block');
+        // Use the media type currently selected in the switcher, if any
+        const mediaPanel = section.querySelector('.media-type-panel:not([hidden])');
+        if (mediaPanel) {
+          data.contentType = mediaPanel.dataset.contentType;
+        }
+        const codeBlock = (mediaPanel || section).querySelector('.code-block');
         if (codeBlock) {
           try {
             const bodyText = codeBlock.textContent.trim();
@@ -822,7 +850,7 @@ class ApiTesterManager {
     return data;
   }
 
-  populateHeadersTable(headers = []) {
+  populateHeadersTable(headers = [], contentType = null) {
     const headersForm = document.getElementById('headersForm');
     if (!headersForm) return;
 
@@ -834,11 +862,51 @@ class ApiTesterManager {
       this.addHeaderRow(header.key, this.replaceDoubleVariables(header.value));
     });
 
-    // Add common default headers if none exist
-    if (headers.length === 0) {
-      this.addHeaderRow('Content-Type', 'application/json');
-      this.addHeaderRow('Authorization', '{{API_TOKEN}}');
+    // Add the request media type unless the endpoint already sets one
+    const hasContentType = headers.some(header => header.key.toLowerCase() === 'content-type');
+    if (!hasContentType && (headers.length === 0 || contentType)) {
+      this.addHeaderRow('Content-Type', contentType || 'application/json');
     }
+
+  }
+
+  /**
+   * Pre-fill the credential of each scheme in the first security requirement.
+   * Values reference an environment variable named after the scheme, falling back to the usual token variables.
+   */
+  applySecurity(security = []) {
+    const requirement = security.find(item => item.schemes && item.schemes.length > 0);
+    if (!requirement) return;
+
+    requirement.schemes.forEach(scheme => {
+      const credential = `{{${this.credentialVariable(scheme)}}}`;
+
+      if (scheme.type === 'apiKey') {
+        if (scheme.in === 'query') {
+          this.addQueryRow(scheme.parameterName, credential, `${scheme.name} (API key)`, 'query');
+        } else if (scheme.in === 'cookie') {
+          // Browsers only send cookies they hold, the header is kept so the request can be copied
+          this.addHeaderRow('Cookie', `${scheme.parameterName}=${credential}`);
+        } else {
+          this.addHeaderRow(scheme.parameterName, credential);
+        }
+      } else if (scheme.type === 'http') {
+        const authScheme = scheme.scheme ? scheme.scheme.charAt(0).toUpperCase() + scheme.scheme.slice(1) : 'Bearer';
+        this.addHeaderRow('Authorization', `${authScheme} ${credential}`);
+      } else if (scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+        this.addHeaderRow('Authorization', `Bearer ${credential}`);
+      }
+    });
+  }
+
+  credentialVariable(scheme) {
+    const fallbacks = scheme.type === 'apiKey'
+      ? ['apiKey', 'API_KEY']
+      : scheme.type === 'http' && scheme.scheme === 'basic'
+        ? ['BASIC_AUTH']
+        : ['API_TOKEN', 'accessToken', 'bearerToken'];
+    const candidates = [scheme.name, ...fallbacks];
+    return candidates.find(name => this.environmentVariables.some(variable => variable.key === name)) || scheme.name;
   }
 
   populateQueryTable(parameters = []) {
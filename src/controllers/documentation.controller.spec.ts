@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import { DocumentationController } from './documentation.controller';
+import { DocumentationService } from '../services/documentation.service';
+import { SwaggerIntegrationService } from '../services/swagger-integration.service';
+
+describe('DocumentationController', () => {
+  const snapshot = { document: {}, sections: [], version: 1 };
+  let documentationService: { getConfig: jest.Mock; renderDocumentation: jest.Mock };
+  let controller: DocumentationController;
+
+  type ThemeQuery = Parameters<DocumentationController['getDocumentation']>[2];
+  type PresetQuery = Parameters<DocumentationController['getDocumentation']>[3];
+
+  const request = (url: string) => ({ originalUrl: url, headers: {} }) as Request;
+  const response = () => {
+    const res = { setHeader: jest.fn(), send: jest.fn(), end: jest.fn(), status: jest.fn() };
+    res.status.mockReturnValue(res);
+    return res as unknown as Response;
+  };
+
+  beforeEach(() => {
+    documentationService = {
+      getConfig: jest.fn(() => ({ theme: { mode: 'light' } })),
+      renderDocumentation: jest.fn(() => ({ html: '<html></html>', etag: '"etag"' })),
+    };
+    const swaggerIntegrationService = {
+      getDefaultVersion: jest.fn(() => undefined),
+      getDocumentSnapshot: jest.fn(async () => snapshot),
+    };
+    controller = new DocumentationController(
+      documentationService as unknown as DocumentationService,
+      swaggerIntegrationService as unknown as SwaggerIntegrationService,
+    );
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('getDocumentation', () => {
+    it('applies known theme and preset query values', async () => {
+      await controller.getDocumentation(request('/zedoc?theme=dark&preset=postman'), response(), 'dark', 'postman');
+
+      expect(documentationService.renderDocumentation).toHaveBeenCalledWith(snapshot, { theme: { mode: 'dark', preset: 'postman' } }, { versions: undefined });
+    });
+
+    it('ignores unknown theme and preset query values', async () => {
+      await controller.getDocumentation(request('/zedoc?theme=neon&preset=../../secrets'), response(), 'neon' as ThemeQuery, '../../secrets' as PresetQuery);
+      await controller.getDocumentation(request('/zedoc?theme=a&theme=b'), response(), ['a', 'b'] as unknown as ThemeQuery, undefined);
+
+      expect(documentationService.renderDocumentation).toHaveBeenCalledTimes(2);
+      documentationService.renderDocumentation.mock.calls.forEach(([, configOverride]) => {
+        expect(configOverride).toEqual({ theme: { mode: 'light' } });
+      });
+    });
+  });
+});
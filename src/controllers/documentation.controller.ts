@@ -1,10 +1,14 @@
-import { Controller, Get, Res, Query, UseGuards } from '@nestjs/common';
-import { Response } from 'express';
+import { Controller, Get, Res, Req, Query, Param, UseGuards, Type } from '@nestjs/common';
+import { Request, Response } from 'express';
 import { DocumentationService } from '../services/documentation.service';
-import { SwaggerIntegrationService } from '../services/swagger-integration.service';
+import { SwaggerIntegrationService, DocumentSnapshot } from '../services/swagger-integration.service';
+import { VersionLink } from '../interfaces/documentation.interface';
 import { ApiTags, ApiOperation, ApiQuery } from '@nestjs/swagger';
 import { NoAuthGuard } from 'src/guards/no-auth.guard';
 
+const THEME_MODES = ['light', 'dark'];
+const THEME_PRESETS = ['default', 'postman', 'insomnia', 'swagger', 'custom'];
+
 @ApiTags('Documentation')
 @Controller('zedoc')
 export class DocumentationController {
@@ -16,46 +20,25 @@ export class DocumentationController {
   @UseGuards(NoAuthGuard)
   @Get()
   @ApiOperation({ summary: 'Get unified API documentation' })
-  @ApiQuery({ name: 'theme', required: false, enum: ['light', 'dark'], description: 'Theme mode for the documentation' })
-  @ApiQuery({ name: 'preset', required: false, enum: ['default', 'postman', 'insomnia', 'swagger', 'custom'], description: 'Theme preset for the documentation' })
+  @ApiQuery({ name: 'theme', required: false, enum: THEME_MODES, description: 'Theme mode for the documentation' })
+  @ApiQuery({ name: 'preset', required: false, enum: THEME_PRESETS, description: 'Theme preset for the documentation' })
   async getDocumentation(
+    @Req() req: Request,
     @Res() res: Response,
     @Query('theme') theme?: 'light' | 'dark',
     @Query('preset') preset?: 'default' | 'postman' | 'insomnia' | 'swagger' | 'custom'
   ): Promise<void> {
     try {
-      // Get Swagger document
-      let swaggerDoc =
-        await this.swaggerIntegrationService.getSwaggerDocument();
+      // Once versions are registered, the docs root shows the default version
+      const defaultVersion = this.swaggerIntegrationService.getDefaultVersion();
+      if (defaultVersion) {
+        const docsRoot = req.originalUrl.split('?')[0].replace(/\/+$/, '');
+        this.renderDocumentation(req, res, await this.swaggerIntegrationService.getVersionSnapshot(defaultVersion), theme, preset, docsRoot, defaultVersion);
+        return;
+      }
 
-      // Automatically convert Swagger ApiTags to sections
-      console.log('🔄 Converting Swagger ApiTags to structured sections');
-      const sections =
-        this.swaggerIntegrationService.convertSwaggerToSections(swaggerDoc);
-
-      // Override theme configuration if query parameters are provided
-      const currentConfig = this.documentationService.getConfig();
-      const themeOverride = {
-        ...currentConfig.theme,
-        ...(theme && { mode: theme }),
-        ...(preset && { preset: preset }),
-      };
-
-      console.log(`🎨 Theme configuration:`, {
-        mode: themeOverride.mode || 'light',
-        preset: themeOverride.preset || 'default',
-        fromQuery: { theme, preset }
-      });
-
-      // Generate documentation with theme override
-      const html = this.documentationService.generateDocumentation(
-        swaggerDoc,
-        sections,
-        { theme: themeOverride }
-      );
-
-      res.setHeader('Content-Type', 'text/html');
-      res.send(html);
+      // Get Swagger document, its sections (converted from Swagger ApiTags) and changelog as one snapshot
+      this.renderDocumentation(req, res, await this.swaggerIntegrationService.getDocumentSnapshot(), theme, preset);
     } catch (error) {
       console.error('Error generating documentation:', error);
       res.status(500).send('Error generating documentation');
@@ -122,4 +105,137 @@ export class DocumentationController {
       res.status(500).json({ error: 'Error getting Swagger JSON' });
     }
   }
+
+  @UseGuards(NoAuthGuard)
+  @Get('changelog')
+  @ApiOperation({ summary: 'Get the changes since the previous Swagger document' })
+  async getChangelog(@Res() res: Response): Promise<void> {
+    try {
+      const changelog = await this.swaggerIntegrationService.getChangelog();
+
+      if (!changelog) {
+        res.status(404).json({ error: 'No previous Swagger document configured' });
+        return;
+      }
+
+      res.json(changelog);
+    } catch (error) {
+      console.error('Error generating changelog:', error);
+      res.status(500).json({ error: 'Error generating changelog' });
+    }
+  }
+
+  @UseGuards(NoAuthGuard)
+  @Get('validate')
+  @ApiOperation({ summary: 'Validate the current Swagger document' })
+  async validate(@Res() res: Response): Promise<void> {
+    try {
+      const report = await this.swaggerIntegrationService.validateDocument();
+
+      if (!report) {
+        res.status(404).json({ error: 'No Swagger document loaded' });
+        return;
+      }
+
+      res.json(report);
+    } catch (error) {
+      console.error('Error validating Swagger document:', error);
+      res.status(500).json({ error: 'Error validating Swagger document' });
+    }
+  }
+
+  /**
+   * Declared last so that the static routes above take precedence over the version parameter
+   */
+  @UseGuards(NoAuthGuard)
+  @Get(':version')
+  @ApiOperation({ summary: 'Get the documentation of a registered API version' })
+  @ApiQuery({ name: 'theme', required: false, enum: THEME_MODES, description: 'Theme mode for the documentation' })
+  @ApiQuery({ name: 'preset', required: false, enum: THEME_PRESETS, description: 'Theme preset for the documentation' })
+  async getVersionDocumentation(
+    @Req() req: Request,
+    @Res() res: Response,
+    @Param('version') version: string,
+    @Query('theme') theme?: 'light' | 'dark',
+    @Query('preset') preset?: 'default' | 'postman' | 'insomnia' | 'swagger' | 'custom'
+  ): Promise<void> {
+    try {
+      const snapshot = await this.swaggerIntegrationService.getVersionSnapshot(version);
+      if (!snapshot) {
+        res.status(404).send(`Unknown API version "${version}"`);
+        return;
+      }
+
+      const path = req.originalUrl.split('?')[0].replace(/\/+$/, '');
+      this.renderDocumentation(req, res, snapshot, theme, preset, path.slice(0, path.lastIndexOf('/')), version);
+    } catch (error) {
+      console.error(`Error generating documentation for version "${version}":`, error);
+      res.status(500).send('Error generating documentation');
+    }
+  }
+
+  /**
+   * Render a document snapshot, with the version selector when versions are registered.
+   * Pages come from the render cache, and a matching If-None-Match gets a 304.
+   */
+  private renderDocumentation(
+    req: Request,
+    res: Response,
+    snapshot: DocumentSnapshot,
+    theme?: 'light' | 'dark',
+    preset?: 'default' | 'postman' | 'insomnia' | 'swagger' | 'custom',
+    docsRoot?: string,
+    version?: string,
+  ): void {
+    // Unknown query values are ignored rather than cached as new theme variants
+    theme = THEME_MODES.includes(theme) ? theme : undefined;
+    preset = THEME_PRESETS.includes(preset) ? preset : undefined;
+
+    // Override theme configuration with the version's theme and the query parameters
+    const currentConfig = this.documentationService.getConfig();
+    const themeOverride = {
+      ...currentConfig.theme,
+      ...(version && this.swaggerIntegrationService.getVersionOptions(version)?.theme),
+      ...(theme && { mode: theme }),
+      ...(preset && { preset: preset }),
+    };
+
+    console.log(`🎨 Theme configuration:`, {
+      mode: themeOverride.mode || 'light',
+      preset: themeOverride.preset || 'default',
+      fromQuery: { theme, preset }
+    });
+
+    const versions: VersionLink[] = version
+      ? this.swaggerIntegrationService.getVersionNames().map(name => ({
+          name,
+          label: this.swaggerIntegrationService.getVersionOptions(name)?.label || name,
+          url: `${docsRoot}/${encodeURIComponent(name)}`,
+          current: name === version,
+        }))
+      : undefined;
+
+    // Generate documentation with theme override
+    const page = this.documentationService.renderDocumentation(snapshot, { theme: themeOverride }, { versions });
+
+    res.setHeader('ETag', page.etag);
+    res.setHeader('Cache-Control', 'no-cache');
+    if (req.headers['if-none-match'] === page.etag) {
+      res.status(304).end();
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/html');
+    res.send(page.html);
+  }
+}
+
+/**
+ * Documentation controller mounted at another path than `/zedoc`
+ */
+export function createDocumentationController(path: string): Type<DocumentationController> {
+  @Controller(path)
+  class MountedDocumentationController extends DocumentationController {}
+
+  return MountedDocumentationController;
 }
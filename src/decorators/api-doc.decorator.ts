@@ -1,5 +1,10 @@
 import { SetMetadata } from '@nestjs/common';
+import { ApiDocOptions } from '../interfaces/documentation.interface';
 
 export const API_DOC_METADATA = 'api-doc';
 
-export const ApiDoc = (options: any) => SetMetadata(API_DOC_METADATA, options); 
\ No newline at end of file
+/**
+ * Enrich the documentation of a route handler, or of every handler of a controller.
+ * Handler options override controller options.
+ */
+export const ApiDoc = (options: ApiDocOptions) => SetMetadata(API_DOC_METADATA, options);
@@ -6,6 +6,18 @@ export * from './services/sidebar.service';
 export * from './services/font.service';
 export * from './services/environment.service';
 export * from './services/branding.service';
+export * from './services/spec-loader.service';
+export * from './services/ref-resolver.service';
+export * from './services/spec-aggregator.service';
+export * from './services/spec-validator.service';
+export * from './services/media-type.service';
+export * from './services/example-generator.service';
+export * from './services/schema.service';
+export * from './services/section-grouping.service';
+export * from './services/spec-diff.service';
+export * from './services/api-doc-discovery.service';
+export * from './services/route-document.service';
+export * from './services/document-filter.service';
 export * from './decorators/api-doc.decorator';
 export * from './interfaces/documentation.interface';
 export * from './controllers/documentation.controller'; 
\ No newline at end of file
@@ -1,10 +1,19 @@
+import { Type } from '@nestjs/common';
+
 export interface DocumentationConfig {
+  /** Name of a non-global instance, to serve several docs from one app (see `getSwaggerIntegrationToken`) */
+  name?: string;
+  /** Path the docs are served at (default: `zedoc`) */
+  path?: string;
   title?: string;
   description?: string;
   version?: string;
   basePath?: string;
   tags?: string[];
+  /** Roles of the role filter (default: the roles of the documented endpoints) */
   roles?: string[];
+  /** Metadata key Nest role decorators and guards read, e.g. `SetMetadata('roles', [...])` (default: `roles`) */
+  rolesMetadataKey?: string;
   servers?: Array<{
     url: string;
     description?: string;
@@ -13,14 +22,166 @@ export interface DocumentationConfig {
   sidebar?: SidebarConfig;
   environment?: EnvironmentConfig;
   branding?: BrandingConfig;
+  examples?: ExampleConfig;
+  /** How Swagger operations are arranged into sections and modules (default: `tag-resource`) */
+  grouping?: GroupingStrategy | GroupingFunction;
+  /** Previous document to diff against for the Changelog section */
+  changelog?: ChangelogConfig;
+  /** Build the document from the Nest routes when no Swagger document is set */
+  routeDiscovery?: boolean | RouteDiscoveryConfig;
+  /** Prefix set with `app.setGlobalPrefix()`, stripped from document paths when matching them to Nest routes */
+  globalPrefix?: string;
+  /** When set, only operations matching one of these filters are documented */
+  include?: OperationFilter | OperationFilter[];
+  /** Operations matching one of these filters are left out of the docs and their JSON */
+  exclude?: OperationFilter | OperationFilter[];
   sections?: SectionConfig[];
 }
 
+// Examples
+export interface ExampleConfig {
+  seed?: number | string;
+  maxDepth?: number;
+}
+
+// Grouping
+/**
+ * - `tag-resource`: a section per tag, a module per resource path (`/users` and `/users/{id}` together)
+ * - `path-prefix`: a section per first path segment (skipping `api` and version segments), modules per resource path
+ * - `controller`: a section per Nest controller, modules per resource path
+ * - `flat`: a single section with one module per operation
+ */
+export type GroupingStrategy = 'tag-resource' | 'path-prefix' | 'controller' | 'flat';
+
+export type GroupingFunction = (operations: NormalizedOperation[]) => SectionConfig[];
+
+/**
+ * An operation of the loaded document, as handed to grouping strategies
+ */
+export interface NormalizedOperation {
+  /** Upper-case HTTP method */
+  method: string;
+  path: string;
+  summary: string;
+  description: string;
+  operationId?: string;
+  tags: string[];
+  /** Nest controller name, from the default `<Controller>_<handler>` operationId */
+  controller?: string;
+  /** Options of the matching `@ApiDoc` handler */
+  apiDoc?: ApiDocOptions;
+  service?: ServiceInfo;
+  server?: string;
+  /** The operation object, with references and path-level parameters resolved */
+  operation: any;
+  endpoint: Endpoint;
+}
+
+// ApiDoc decorator
+export interface ApiDocOptions {
+  roles?: string[];
+  /** Section (by name) the endpoint is moved to, whatever the grouping strategy */
+  section?: string;
+  /** Module (by name) the endpoint is moved to within its section */
+  module?: string;
+  /** Position within the module, lower first (default: 0) */
+  order?: number;
+  /** Leave the endpoint out of the documentation */
+  hidden?: boolean;
+  /** Markdown shown on the endpoint card */
+  notes?: string;
+  codeSamples?: CodeSample[];
+  /** Request examples, or response examples when they have a `status` */
+  examples?: Array<{
+    name: string;
+    summary?: string;
+    value: any;
+    status?: number;
+  }>;
+}
+
+export interface CodeSample {
+  /** Prism language, e.g. `bash`, `typescript`, `python` */
+  lang: string;
+  label?: string;
+  source: string;
+}
+
+/**
+ * A controller route found at startup, with its `@ApiDoc` options (class options merged under handler options)
+ * and roles metadata
+ */
+export interface DiscoveredRoute {
+  controller: string;
+  handler: string;
+  /** Upper-case HTTP method */
+  method: string;
+  /** Route path in OpenAPI form, e.g. `/users/{id}`, without the global prefix */
+  path: string;
+  /** The operationId Swagger generates by default */
+  operationId: string;
+  apiDoc?: ApiDocOptions;
+  /** Roles from the handler or controller roles metadata */
+  roles?: string[];
+  /** Handler arguments taken from the request */
+  parameters: RouteParameter[];
+  /** Declared return type of the handler, when it is a class */
+  returnType?: Type<unknown>;
+  /** Status code set with `@HttpCode` */
+  httpCode?: number;
+}
+
+/**
+ * A `@Param`, `@Query`, `@Headers` or `@Body` handler argument.
+ * Without a name it takes the whole object, e.g. `@Query() query: ListUsersQuery`.
+ */
+export interface RouteParameter {
+  in: 'path' | 'query' | 'header' | 'body';
+  name?: string;
+  /** Declared TypeScript type (`String`, `Number`, a DTO class...) */
+  type?: Type<unknown>;
+}
+
+/**
+ * Matches operations that meet every criterion set, e.g. `{ methods: ['DELETE'], paths: ['/users/**'] }`
+ */
+export interface OperationFilter {
+  /** Any of these tags */
+  tags?: string[];
+  /** Any of these path globs: `*` matches within a segment, `**` across segments */
+  paths?: string[];
+  methods?: string[];
+}
+
+export interface RouteDiscoveryConfig {
+  /** Prefix set with `app.setGlobalPrefix()`, prepended to every discovered path */
+  globalPrefix?: string;
+}
+
 // Sections
 export interface SectionConfig {
   id: string;
   name: string;
+  /** Markdown, e.g. the description of the matching document tag */
+  description?: string;
+  externalDocs?: ExternalDocs;
+  /** Name of the `x-tagGroups` entry the section belongs to */
+  group?: string;
   modules: ModuleConfig[];
+  service?: ServiceInfo;
+}
+
+export interface ExternalDocs {
+  url: string;
+  description?: string;
+}
+
+/**
+ * Consecutive sections sharing a group; `name` is undefined when the document has no groups
+ */
+export interface SectionGroup {
+  name?: string;
+  sections: SectionConfig[];
 }
 
 export interface ModuleConfig {
@@ -32,43 +193,193 @@ export interface ModuleConfig {
 
 export interface Endpoint {
   deprecated?: boolean;
+  deprecation?: Deprecation;
+  operationId?: string;
   method: string;
   path: string;
   summary: string;
   description: string;
   requiresAuth?: boolean;
+  /** Alternatives: satisfying any one requirement is enough */
+  security?: SecurityRequirement[];
   tags: string[];
+  server?: string;
   additionalHeaders?: Record<string, string>;
   requestBody?: Record<string, any>;
   successData?: any;
   successMessage?: string;
   successStatus?: number;
+  requestMediaTypes?: MediaTypeExample[];
+  successMediaTypes?: MediaTypeExample[];
+  requestModel?: string;
+  responseModel?: string;
+  requestSchema?: SchemaNode;
+  responseSchema?: SchemaNode;
+  /** OpenAPI 3.1 webhook: a request the API sends, `path` holds the webhook name */
+  webhook?: boolean;
+  /** Roles allowed to call the endpoint, from `@ApiDoc`, `x-roles` or the roles metadata */
+  roles?: string[];
+  /** Markdown notes from `@ApiDoc` */
+  notes?: string;
+  codeSamples?: CodeSample[];
+  /** Matches the same endpoint across registered API versions */
+  versionKey?: string;
+  /** Registered API versions that don't have this endpoint */
+  missingInVersions?: string[];
   errorResponses?: Array<{
     status: number;
     description: string;
     error: string;
     message: string;
+    mediaTypes?: MediaTypeExample[];
   }>;
   // Enhanced fields for complex APIs
-  parameters?: Array<{
-    name: string;
-    in: string;
-    required: boolean;
-    description: string;
-    type: string;
-    example: any;
-  }>;
+  parameters?: EndpointParameter[];
   requestExamples?: Array<{
     name: string;
     summary: string;
     value: any;
+    mediaType?: string;
   }>;
   responseExamples?: Array<{
     name: string;
     summary: string;
     status: number;
     value: any;
+    mediaType?: string;
+  }>;
+}
+
+/**
+ * A path, query, header or cookie parameter, merged from the path item and the operation
+ */
+export interface EndpointParameter {
+  name: string;
+  in: string;
+  required: boolean;
+  description: string;
+  type: string;
+  example: any;
+  schema?: any;
+  /** Serialization, with the OpenAPI defaults applied for the parameter location */
+  style?: string;
+  explode?: boolean;
+  enum?: any[];
+  deprecated?: boolean;
+  deprecation?: Deprecation;
+}
+
+// Models
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  type: string;
+  description?: string;
+  deprecated?: boolean;
+  deprecation?: Deprecation;
+  enum?: any[];
+  fields: ModelField[];
+}
+
+export interface ModelField {
+  name: string;
+  type: string;
+  required: boolean;
+  nullable: boolean;
+  description?: string;
+  deprecated?: boolean;
+  deprecation?: Deprecation;
+  constraints: string[];
+  modelRef?: string;
+}
+
+/**
+ * Resolved schema of a request or response body, one node per property
+ */
+export interface SchemaNode extends ModelField {
+  composition?: 'oneOf' | 'anyOf';
+  circular?: boolean;
+  children?: SchemaNode[];
+}
+
+// Deprecation
+/**
+ * Lifecycle of a deprecated operation, parameter, property or model,
+ * from `deprecated` and the `x-deprecated-since`, `x-sunset` and `x-replaced-by` extensions
+ */
+export interface Deprecation {
+  since?: string;
+  /** Date after which the item may be removed */
+  sunset?: string;
+  /** operationId, `METHOD /path` or URL of the replacement */
+  replacedBy?: string;
+  /** Anchor or URL of the replacement, when it could be resolved */
+  replacementHref?: string;
+}
+
+/**
+ * A row of the generated Deprecations page
+ */
+export interface DeprecationEntry {
+  kind: 'operation' | 'parameter' | 'property' | 'model';
+  name: string;
+  /** Operation or model the item belongs to, e.g. `GET /users` */
+  location?: string;
+  href: string;
+  deprecation: Deprecation;
+}
+
+// Security
+export type SecuritySchemeType = 'http' | 'apiKey' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+
+/**
+ * A security scheme from `components.securitySchemes`, with the scopes one requirement asks for
+ */
+export interface SecuritySchemeInfo {
+  name: string;
+  /** Unset when the scheme is not declared in `components.securitySchemes` */
+  type?: SecuritySchemeType;
+  undeclared?: boolean;
+  description?: string;
+  /** http: `bearer`, `basic`, ... */
+  scheme?: string;
+  bearerFormat?: string;
+  /** apiKey: where the key is sent and under which name */
+  in?: 'header' | 'query' | 'cookie';
+  parameterName?: string;
+  /** oauth2: flow names, e.g. `authorizationCode` */
+  flows?: string[];
+  openIdConnectUrl?: string;
+  scopes: string[];
+}
+
+/**
+ * Schemes that must all be satisfied together. An empty list means authentication is optional.
+ */
+export interface SecurityRequirement {
+  schemes: SecuritySchemeInfo[];
+}
+
+// Media types
+export interface MediaTypeExample {
+  mediaType: string;
+  contentType: string;
+  example: any;
+  exampleText: string;
+  examples?: Array<{
+    name: string;
+    summary: string;
+    value: any;
   }>;
+  encoding?: Record<string, MediaTypeEncoding>;
+}
+
+export interface MediaTypeEncoding {
+  contentType?: string;
+  headers?: string[];
+  style?: string;
+  explode?: boolean;
+  allowReserved?: boolean;
 }
 
 // Sidebar
@@ -180,11 +491,137 @@ export interface CoverConfig {
   overlayColor?: string;
 }
 
+// Swagger sources
+export interface SwaggerSourceOptions {
+  timeout?: number;
+  headers?: Record<string, string>;
+  encoding?: BufferEncoding;
+  format?: SpecFormat;
+  refresh?: SpecRefreshOptions;
+  failOn?: ValidationSeverity;
+  /** Origins external `$ref` URLs may be fetched from, besides the origin of the referencing document */
+  allowedRefOrigins?: string[];
+}
+
+export type SpecFormat = 'json' | 'yaml';
+
+export interface SpecRefreshOptions {
+  interval?: number;
+  watch?: boolean;
+}
+
+export interface SpecValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface ApiVersionRegistration extends SwaggerSourceOptions {
+  /** Label of the version selector entry (default: the version name) */
+  label?: string;
+  /** Replace the document's `servers` */
+  servers?: Array<{
+    url: string;
+    description?: string;
+  }>;
+  theme?: ThemeConfig;
+  /** Serve this version at the docs root (default: the first registered version) */
+  default?: boolean;
+  /** Path prefix of this version's operations, e.g. `/v2`, ignored when matching endpoints across versions */
+  pathPrefix?: string;
+  /** Group this version's operations differently from the `grouping` configuration */
+  grouping?: GroupingStrategy | GroupingFunction;
+  /** Sections of this version, used instead of the ones converted from its document */
+  sections?: SectionConfig[];
+}
+
+export interface SwaggerSourceRegistration extends SwaggerSourceOptions {
+  title?: string;
+  server?: string;
+  pathPrefix?: string;
+  tagPrefix?: string;
+}
+
+export interface ServiceInfo {
+  id: string;
+  name: string;
+  description?: string;
+  version?: string;
+  server?: string;
+}
+
+// Validation
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  pointer: string;
+  severity: ValidationSeverity;
+  code: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  issues: ValidationIssue[];
+}
+
+// Changelog
+export type SpecChangeType = 'added' | 'removed' | 'changed';
+
+export type SpecChangeScope = 'endpoint' | 'parameter' | 'field' | 'status';
+
+/**
+ * One difference between the previous and the current document
+ */
+export interface SpecChange {
+  type: SpecChangeType;
+  scope: SpecChangeScope;
+  method: string;
+  path: string;
+  /** Parameter name, field path (`address.city`) or status code */
+  name?: string;
+  /** `query`, `request body`, `response 200`... */
+  location?: string;
+  /** Whether existing clients can stop working */
+  breaking: boolean;
+  description: string;
+}
+
+export interface SpecChangelog {
+  /** `info.version` of the previous and current documents */
+  from?: string;
+  to?: string;
+  breaking: number;
+  nonBreaking: number;
+  changes: SpecChange[];
+}
+
+export interface ChangelogConfig extends SwaggerSourceOptions {
+  /** Previous document: file path, URL or document object */
+  previous: string | Record<string, any>;
+}
+
+export interface UnresolvedReference {
+  ref: string;
+  pointer: string;
+  source: string;
+  reason: string;
+}
+
 export interface TemplateData {
   title: string;
   description?: string;
   version?: string;
   sections?: SectionConfig[];
+  sectionGroups?: SectionGroup[];
+  services?: ServiceInfo[];
+  models?: ModelDefinition[];
+  deprecations?: DeprecationEntry[];
+  /** Operation anchors by operationId, `METHOD /path` and path, to link `x-replaced-by` */
+  replacementAnchors?: Record<string, string>;
+  changelog?: SpecChangelog;
+  versions?: VersionLink[];
   theme?: ThemeConfig;
   sidebar?: SidebarConfig;
   environment?: EnvironmentConfig;
@@ -192,3 +629,26 @@ export interface TemplateData {
   tags?: string[];
   roles?: string[];
 } 
+
+/**
+ * Page data that comes neither from the document nor from the configuration
+ */
+export interface RenderContext {
+  changelog?: SpecChangelog;
+  versions?: VersionLink[];
+}
+
+/**
+ * A rendered documentation page and its entity tag
+ */
+export interface RenderedPage {
+  html: string;
+  etag: string;
+}
+
+export interface VersionLink {
+  name: string;
+  label: string;
+  url: string;
+  current: boolean;
+}
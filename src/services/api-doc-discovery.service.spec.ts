@@ -0,0 +1,78 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import { ApiDocDiscoveryService } from './api-doc-discovery.service';
+import { DocumentationConfig } from '../interfaces/documentation.interface';
+import { ApiDoc } from '../decorators/api-doc.decorator';
+
+@Controller('users')
+class UsersController {
+  @Get()
+  @ApiDoc({ roles: ['admin'] })
+  findAll() {
+    return [];
+  }
+}
+
+@Controller()
+class RootController {
+  @Get(':id')
+  @ApiDoc({ notes: 'Root lookup' })
+  findOne(@Param('id') id: string) {
+    return id;
+  }
+}
+
+describe('ApiDocDiscoveryService', () => {
+  const createService = async (config: DocumentationConfig = {}) => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [DiscoveryModule],
+      controllers: [UsersController, RootController],
+      providers: [ApiDocDiscoveryService, { provide: 'DOCUMENTATION_CONFIG', useValue: config }],
+    }).compile();
+    await moduleRef.init();
+    return moduleRef.get(ApiDocDiscoveryService);
+  };
+
+  beforeEach(() => jest.spyOn(console, 'log').mockImplementation(() => undefined));
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('findRoute', () => {
+    it('matches by operationId first', async () => {
+      const service = await createService();
+
+      expect(service.findRoute('UsersController_findAll', 'GET', '/anything')?.handler).toBe('findAll');
+    });
+
+    it('matches by method and exact path', async () => {
+      const service = await createService();
+
+      expect(service.findRoute('listUsers', 'get', '/users')?.handler).toBe('findAll');
+      expect(service.findRoute('listUsers', 'post', '/users')).toBeUndefined();
+    });
+
+    it('does not match paths that only end with the route path', async () => {
+      const service = await createService();
+
+      expect(service.findRoute('listSuperusers', 'GET', '/superusers')).toBeUndefined();
+      expect(service.findRoute('listAdminUsers', 'GET', '/admin/users')).toBeUndefined();
+      expect(service.findRoute('getUser', 'GET', '/users/{id}')).toBeUndefined();
+      expect(service.findRoute('getRoot', 'GET', '/{id}')?.handler).toBe('findOne');
+    });
+
+    it('strips the configured global prefix', async () => {
+      const service = await createService({ globalPrefix: '/api/' });
+
+      expect(service.findRoute('listUsers', 'GET', '/api/users')?.handler).toBe('findAll');
+      expect(service.findRoute('getRoot', 'GET', '/api/{id}')?.handler).toBe('findOne');
+      expect(service.findRoute('listUsers', 'GET', '/apiv2/users')).toBeUndefined();
+      expect(service.findRoute('listUsers', 'GET', '/v2/users')).toBeUndefined();
+    });
+
+    it('uses the route discovery global prefix', async () => {
+      const service = await createService({ routeDiscovery: { globalPrefix: 'api' } });
+
+      expect(service.findApiDoc('listUsers', 'GET', '/api/users')?.roles).toEqual(['admin']);
+    });
+  });
+});
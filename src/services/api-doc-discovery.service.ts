@@ -0,0 +1,168 @@
+import { Injectable, Inject, Optional, OnModuleInit, RequestMethod, Type } from '@nestjs/common';
+import { HTTP_CODE_METADATA, METHOD_METADATA, PATH_METADATA, ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
+import { RouteParamtypes } from '@nestjs/common/enums/route-paramtypes.enum';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { ApiDocOptions, DiscoveredRoute, DocumentationConfig, RouteParameter } from '../interfaces/documentation.interface';
+import { API_DOC_METADATA } from '../decorators/api-doc.decorator';
+
+const PARAMETER_LOCATIONS: Partial<Record<RouteParamtypes, RouteParameter['in']>> = {
+  [RouteParamtypes.PARAM]: 'path',
+  [RouteParamtypes.QUERY]: 'query',
+  [RouteParamtypes.HEADERS]: 'header',
+  [RouteParamtypes.BODY]: 'body',
+};
+
+@Injectable()
+export class ApiDocDiscoveryService implements OnModuleInit {
+  private routes: DiscoveredRoute[] = [];
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+    @Optional() @Inject('DOCUMENTATION_CONFIG') private readonly config?: DocumentationConfig,
+  ) {}
+
+  onModuleInit(): void {
+    this.routes = this.scanRoutes();
+    const documented = this.routes.filter(route => route.apiDoc).length;
+    if (documented > 0) {
+      console.log(`📝 Found @ApiDoc options on ${documented} route(s)`);
+    }
+  }
+
+  /**
+   * Get every controller route found at startup
+   */
+  getRoutes(): DiscoveredRoute[] {
+    return this.routes;
+  }
+
+  /**
+   * Get the route of an operation, matched by the default `<Controller>_<handler>` operationId,
+   * else by method and path, with the configured global prefix stripped from the document path
+   */
+  findRoute(operationId: string | undefined, method: string, path: string): DiscoveredRoute | undefined {
+    const byId = operationId ? this.routes.find(route => route.operationId === operationId) : undefined;
+    if (byId) {
+      return byId;
+    }
+
+    const normalizedPath = this.normalizePath(path);
+    const prefix = this.normalizePath(this.globalPrefix());
+    const unprefixedPath = prefix !== '/' && (normalizedPath === prefix || normalizedPath.startsWith(`${prefix}/`))
+      ? this.normalizePath(normalizedPath.slice(prefix.length))
+      : undefined;
+
+    const candidates = this.routes.filter(route => route.method === method.toUpperCase());
+    return candidates.find(route => route.path === normalizedPath)
+      || (unprefixedPath ? candidates.find(route => route.path === unprefixedPath) : undefined);
+  }
+
+  /**
+   * Get the `@ApiDoc` options of an operation
+   */
+  findApiDoc(operationId: string | undefined, method: string, path: string): ApiDocOptions | undefined {
+    return this.findRoute(operationId, method, path)?.apiDoc;
+  }
+
+  private scanRoutes(): DiscoveredRoute[] {
+    const routes: DiscoveredRoute[] = [];
+
+    this.discoveryService.getControllers().forEach(wrapper => {
+      const { instance } = wrapper;
+      // Controllers are always registered as classes
+      const metatype = wrapper.metatype as Type<unknown> | undefined;
+      if (!instance || !metatype) return;
+
+      const prototype = Object.getPrototypeOf(instance);
+      const controllerPaths = this.toArray(Reflect.getMetadata(PATH_METADATA, metatype));
+      const controllerDoc: ApiDocOptions | undefined = this.reflector.get(API_DOC_METADATA, metatype);
+      const rolesKey = this.config?.rolesMetadataKey || 'roles';
+
+      this.metadataScanner.getAllMethodNames(prototype).forEach(handler => {
+        const target = prototype[handler];
+        const requestMethod: RequestMethod | undefined = Reflect.getMetadata(METHOD_METADATA, target);
+        if (requestMethod === undefined) return;
+
+        const handlerDoc: ApiDocOptions | undefined = this.reflector.get(API_DOC_METADATA, target);
+        const apiDoc = controllerDoc || handlerDoc ? { ...controllerDoc, ...handlerDoc } : undefined;
+        const method = RequestMethod[requestMethod];
+        const roles = this.toRoles(this.reflector.getAllAndOverride(rolesKey, [target, metatype]));
+        const parameters = this.scanParameters(metatype, prototype, handler);
+        const returnType = Reflect.getMetadata('design:returntype', prototype, handler);
+        const httpCode: number | undefined = Reflect.getMetadata(HTTP_CODE_METADATA, target);
+
+        controllerPaths.forEach(controllerPath => {
+          this.toArray(Reflect.getMetadata(PATH_METADATA, target)).forEach(handlerPath => {
+            routes.push({
+              controller: metatype.name,
+              handler,
+              method: method === 'ALL' ? 'GET' : method,
+              path: this.normalizePath(`${controllerPath}/${handlerPath}`),
+              operationId: `${metatype.name}_${handler}`,
+              apiDoc,
+              roles,
+              parameters,
+              // Promise and Observable erase the resolved type
+              returnType: typeof returnType === 'function' && ![Promise, Object].includes(returnType) && returnType.name !== 'Observable' ? returnType : undefined,
+              httpCode,
+            });
+          });
+        });
+      });
+    });
+
+    return routes;
+  }
+
+  /**
+   * Request arguments of a handler in declaration order, with their declared types
+   */
+  private scanParameters(metatype: Type<unknown>, prototype: any, handler: string): RouteParameter[] {
+    const args: Record<string, { index: number; data?: unknown }> = Reflect.getMetadata(ROUTE_ARGS_METADATA, metatype, handler) || {};
+    const types: Type<unknown>[] = Reflect.getMetadata('design:paramtypes', prototype, handler) || [];
+
+    return Object.keys(args)
+      .map(key => ({ location: PARAMETER_LOCATIONS[Number(key.split(':')[0]) as RouteParamtypes], ...args[key] }))
+      .filter(arg => arg.location)
+      .sort((a, b) => a.index - b.index)
+      .map(arg => ({
+        in: arg.location,
+        name: typeof arg.data === 'string' ? arg.data : undefined,
+        type: types[arg.index],
+      }));
+  }
+
+  private globalPrefix(): string {
+    const routeDiscovery = this.config?.routeDiscovery;
+    return this.config?.globalPrefix ?? (typeof routeDiscovery === 'object' ? routeDiscovery.globalPrefix : undefined) ?? '';
+  }
+
+  /**
+   * `users/:id/` -> `/users/{id}`
+   */
+  private normalizePath(path: string): string {
+    const normalized = path
+      .split('/')
+      .filter(Boolean)
+      .map(segment => segment.replace(/^:(\w+)\??$/, '{$1}'))
+      .join('/');
+    return `/${normalized}`;
+  }
+
+  /**
+   * Roles metadata is usually a list of names, sometimes a single name or a list of enum values
+   */
+  private toRoles(value: unknown): string[] | undefined {
+    const roles = (Array.isArray(value) ? value : value !== undefined && value !== null ? [value] : [])
+      .filter(role => typeof role === 'string' || typeof role === 'number')
+      .map(String);
+    return roles.length > 0 ? roles : undefined;
+  }
+
+  private toArray(value: string | string[] | undefined): string[] {
+    if (value === undefined) return [''];
+    return Array.isArray(value) ? value : [value];
+  }
+}
@@ -0,0 +1,43 @@
+import { DocumentFilterService } from './document-filter.service';
+import { SchemaService } from './schema.service';
+import { DocumentationConfig } from '../interfaces/documentation.interface';
+
+describe('DocumentFilterService', () => {
+  const createService = (config: DocumentationConfig) => new DocumentFilterService(new SchemaService(), undefined, config);
+
+  const document = {
+    openapi: '3.1.0',
+    info: { title: 'Shop', version: '1.0.0' },
+    paths: {
+      '/users': { get: { tags: ['Users'], responses: { 200: { description: 'OK' } } } },
+      '/admin/stats': { get: { tags: ['Admin'], responses: { 200: { description: 'OK' } } } },
+    },
+    webhooks: {
+      orderCreated: { post: { tags: ['Orders'], responses: { 200: { description: 'OK' } } } },
+      auditLogged: { post: { tags: ['Admin'], responses: { 200: { description: 'OK' } } } },
+      userDeleted: { post: { tags: ['Users'], 'x-internal': true, responses: { 200: { description: 'OK' } } } },
+    },
+  };
+
+  describe('filter', () => {
+    it('applies exclude rules to webhooks', () => {
+      const filtered = createService({ exclude: { tags: ['Admin'] } }).filter(document);
+
+      expect(Object.keys(filtered.paths)).toEqual(['/users']);
+      expect(Object.keys(filtered.webhooks)).toEqual(['orderCreated']);
+    });
+
+    it('applies include rules to webhooks, matching paths against the webhook name', () => {
+      const filtered = createService({ include: [{ tags: ['Users'] }, { paths: ['order*'] }] }).filter(document);
+
+      expect(Object.keys(filtered.paths)).toEqual(['/users']);
+      expect(Object.keys(filtered.webhooks)).toEqual(['orderCreated']);
+    });
+
+    it('returns the document as is when nothing is excluded', () => {
+      const visible = { ...document, webhooks: { orderCreated: document.webhooks.orderCreated } };
+
+      expect(createService({}).filter(visible)).toBe(visible);
+    });
+  });
+});
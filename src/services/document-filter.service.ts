@@ -0,0 +1,181 @@
+import { Injectable, Inject, Optional } from '@nestjs/common';
+import { DocumentationConfig, OperationFilter } from '../interfaces/documentation.interface';
+import { SchemaService } from './schema.service';
+import { ApiDocDiscoveryService } from './api-doc-discovery.service';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'];
+
+@Injectable()
+export class DocumentFilterService {
+  // Filtered copies follow their source document, so a document is filtered once
+  private readonly filtered = new WeakMap<object, any>();
+
+  constructor(
+    private readonly schemaService: SchemaService,
+    @Optional() private readonly apiDocDiscoveryService?: ApiDocDiscoveryService,
+    @Optional() @Inject('DOCUMENTATION_CONFIG') private readonly config?: DocumentationConfig,
+  ) {}
+
+  /**
+   * Whether an object is marked `x-internal: true` or `x-zedoc-hidden: true`
+   */
+  isMarkedHidden(value: any): boolean {
+    return !!value && typeof value === 'object' && (value['x-internal'] === true || value['x-zedoc-hidden'] === true);
+  }
+
+  /**
+   * Whether an operation is left out of the docs: marked hidden, hidden with `@ApiDoc`,
+   * outside the `include` rules or matching an `exclude` rule
+   */
+  isOperationExcluded(method: string, path: string, operation: any, pathItem?: any): boolean {
+    if (this.isMarkedHidden(operation) || this.isMarkedHidden(pathItem)) {
+      return true;
+    }
+    if (this.apiDocDiscoveryService?.findApiDoc(operation?.operationId, method, path)?.hidden) {
+      return true;
+    }
+
+    const include = this.toFilters(this.config?.include);
+    if (include.length > 0 && !include.some(filter => this.matches(filter, method, path, operation))) {
+      return true;
+    }
+    return this.toFilters(this.config?.exclude).some(filter => this.matches(filter, method, path, operation));
+  }
+
+  /**
+   * Copy of the document without excluded operations, and without hidden parameters and schema properties.
+   * The document is returned as is when nothing is excluded.
+   */
+  filter(document: any): any {
+    if (!document || typeof document !== 'object') {
+      return document;
+    }
+    if (this.filtered.has(document)) {
+      return this.filtered.get(document);
+    }
+
+    let changed = false;
+    const result = JSON.parse(JSON.stringify(document));
+
+    Object.keys(result.paths || {}).forEach(path => {
+      const pathItem = result.paths[path] || {};
+      this.operationMethods(pathItem).forEach(method => {
+        if (this.isOperationExcluded(method, path, pathItem[method], pathItem)) {
+          delete pathItem[method];
+          changed = true;
+        }
+      });
+      if (this.operationMethods(pathItem).length === 0) {
+        delete result.paths[path];
+        return;
+      }
+      changed = this.filterParameters(pathItem, result) || changed;
+      this.operationMethods(pathItem).forEach(method => {
+        changed = this.filterParameters(pathItem[method], result) || changed;
+      });
+    });
+
+    // Webhooks are matched by name where operations are matched by path
+    Object.keys(result.webhooks || {}).forEach(name => {
+      const webhook = result.webhooks[name] || {};
+      this.operationMethods(webhook)
+        .filter(method => this.isOperationExcluded(method, name, webhook[method], webhook))
+        .forEach(method => {
+          delete webhook[method];
+          changed = true;
+        });
+      if (!webhook.$ref && this.operationMethods(webhook).length === 0) {
+        delete result.webhooks[name];
+      }
+    });
+
+    const parameters = result.components?.parameters || {};
+    Object.keys(parameters).filter(name => this.isMarkedHidden(parameters[name])).forEach(name => {
+      delete parameters[name];
+      changed = true;
+    });
+
+    changed = this.filterProperties(result) || changed;
+
+    const filtered = changed ? result : document;
+    this.filtered.set(document, filtered);
+    return filtered;
+  }
+
+  private operationMethods(pathItem: any): string[] {
+    return Object.keys(pathItem || {}).filter(method => HTTP_METHODS.includes(method.toLowerCase()));
+  }
+
+  /**
+   * Drop hidden parameters, including `$ref` ones pointing to a hidden parameter
+   */
+  private filterParameters(target: any, document: any): boolean {
+    if (!Array.isArray(target?.parameters)) {
+      return false;
+    }
+
+    const kept = target.parameters.filter((param: any) => {
+      const resolved = param?.$ref ? this.schemaService.resolveRef(param.$ref, document) : param;
+      return !this.isMarkedHidden(param) && !this.isMarkedHidden(resolved);
+    });
+    const changed = kept.length !== target.parameters.length;
+    target.parameters = kept;
+    return changed;
+  }
+
+  /**
+   * Drop hidden properties of every schema in the document, and their `required` entries
+   */
+  private filterProperties(node: any): boolean {
+    if (!node || typeof node !== 'object') {
+      return false;
+    }
+
+    let changed = false;
+    if (node.properties && typeof node.properties === 'object' && !Array.isArray(node.properties)) {
+      Object.keys(node.properties).filter(name => this.isMarkedHidden(node.properties[name])).forEach(name => {
+        delete node.properties[name];
+        if (Array.isArray(node.required)) {
+          node.required = node.required.filter((required: string) => required !== name);
+        }
+        changed = true;
+      });
+    }
+
+    Object.keys(node).forEach(key => {
+      changed = this.filterProperties(node[key]) || changed;
+    });
+    return changed;
+  }
+
+  private matches(filter: OperationFilter, method: string, path: string, operation: any): boolean {
+    const tags: string[] = operation?.tags || [];
+    return (!filter.methods || filter.methods.some(candidate => candidate.toUpperCase() === method.toUpperCase()))
+      && (!filter.tags || filter.tags.some(tag => tags.includes(tag)))
+      && (!filter.paths || filter.paths.some(glob => this.globToRegExp(glob).test(path)));
+  }
+
+  private toFilters(value: OperationFilter | OperationFilter[] | undefined): OperationFilter[] {
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  /**
+   * `**` matches across segments, `*` within one segment, `?` one character; `/users/**` also matches `/users`
+   */
+  private globToRegExp(glob: string): RegExp {
+    const pattern = glob
+      .split(/(\/\*\*|\*\*|\*|\?)/)
+      .map(part => {
+        switch (part) {
+          case '/**': return '(?:/.*)?';
+          case '**': return '.*';
+          case '*': return '[^/]*';
+          case '?': return '[^/]';
+          default: return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+      })
+      .join('');
+    return new RegExp(`^${pattern}$`);
+  }
+}
@@ -0,0 +1,137 @@
+import { DocumentationService } from './documentation.service';
+import { ThemeService } from './theme.service';
+import { SidebarService } from './sidebar.service';
+import { FontService } from './font.service';
+import { EnvironmentService } from './environment.service';
+import { BrandingService } from './branding.service';
+import { SchemaService } from './schema.service';
+import { SectionConfig } from '../interfaces/documentation.interface';
+
+describe('DocumentationService', () => {
+  const roles = ['admin', '"><script>alert(1)</script>'];
+  const sections: SectionConfig[] = [{
+    id: 'users',
+    name: 'Users',
+    modules: [{
+      id: 'users',
+      name: 'Users',
+      description: '',
+      endpoints: [{ method: 'GET', path: '/users', summary: 'List users', description: '', tags: ['Users'], roles }],
+    }],
+  }];
+
+  const createService = (themeService = new ThemeService()) => {
+    const environmentService = new EnvironmentService();
+    const brandingService = new BrandingService();
+    return new DocumentationService(
+      {},
+      themeService,
+      new SidebarService(environmentService, brandingService),
+      new FontService(),
+      environmentService,
+      brandingService,
+      new SchemaService(),
+    );
+  };
+  const document = { openapi: '3.0.3', info: { title: 'API', version: '1.0.0' }, paths: {} };
+
+  beforeEach(() => jest.spyOn(console, 'log').mockImplementation(() => undefined));
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('deprecations', () => {
+    const deprecatedSections: SectionConfig[] = [{
+      id: 'users',
+      name: 'Users',
+      modules: [{
+        id: 'users',
+        name: 'Users',
+        description: '',
+        endpoints: [
+          {
+            method: 'GET',
+            path: '/v1/users',
+            summary: 'List users',
+            description: '',
+            tags: ['Users'],
+            deprecated: true,
+            deprecation: { sunset: '2027-01-31', replacedBy: 'get /v2/users' },
+          },
+          { method: 'GET', path: '/v2/users', summary: 'List users', description: '', tags: ['Users'] },
+        ],
+      }],
+    }];
+
+    it('links the replacement without writing to the shared endpoint data', () => {
+      const html = createService().generateDocumentation(document, deprecatedSections);
+
+      expect(deprecatedSections[0].modules[0].endpoints[0].deprecation).toEqual({ sunset: '2027-01-31', replacedBy: 'get /v2/users' });
+      // Once on the endpoint card, once on the Deprecations page
+      expect(html.match(/<a href="#endpoint-users-users-get--v2-users">get \/v2\/users<\/a>/g)).toHaveLength(2);
+    });
+  });
+
+  describe('roles', () => {
+    it('escapes endpoint roles in the page', () => {
+      const html = createService().generateDocumentation(document, sections);
+
+      expect(html).not.toContain('<script>alert(1)</script>');
+      expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    });
+
+    it('escapes endpoint roles in the structured sidebar', () => {
+      const html = createService().generateDocumentation(document, sections);
+
+      expect(html).toContain('data-roles="admin, &quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;"');
+    });
+  });
+
+  describe('structured sidebar', () => {
+    const hostile = '"><script>alert(1)</script>';
+    const escaped = '&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;';
+
+    it('escapes section and module names, paths and titles', () => {
+      const service = createService();
+      const html = service['generateStructuredSidebarHTML']({ position: 'left' }, [{
+        id: hostile,
+        name: hostile,
+        modules: [{
+          id: 'users',
+          name: hostile,
+          description: '',
+          endpoints: [{ method: 'GET', path: `/users/${hostile}`, summary: hostile, description: '', tags: [] }],
+        }],
+      }], []);
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain(`data-section="${escaped}"`);
+      expect(html).toContain(`<h3 class="section-title">${escaped}</h3>`);
+      expect(html).toContain(`<h4 class="module-title">${escaped}</h4>`);
+      expect(html).toContain(`data-path="/users/${escaped}"`);
+      expect(html).toContain(`<span class="endpoint-title">${escaped}</span>`);
+    });
+  });
+
+  describe('inline scripts', () => {
+    it('writes template values as string literals', () => {
+      const html = createService().generateDocumentation(document, sections, { theme: { mode: 'dark' } });
+
+      expect(html).toContain(`const defaultTheme = "dark" || 'light';`);
+      expect(html).toContain(`{ key: 'BASE_URL', value: "", description: 'Base URL for all API endpoints' }`);
+    });
+  });
+
+  describe('instances', () => {
+    it('renders each instance with its own helpers', () => {
+      const themed = (css: string) => {
+        const themeService = new ThemeService();
+        jest.spyOn(themeService, 'generateThemeCSS').mockReturnValue(css);
+        return createService(themeService);
+      };
+      const internal = themed('/* internal theme */');
+      const partners = themed('/* partners theme */');
+
+      expect(internal.generateDocumentation(document, sections)).toContain('/* internal theme */');
+      expect(partners.generateDocumentation(document, sections)).toContain('/* partners theme */');
+    });
+  });
+});
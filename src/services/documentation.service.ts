@@ -4,19 +4,53 @@ import {
   TemplateData, 
   SectionConfig,
   Endpoint,
+  MediaTypeExample,
+  SchemaNode,
+  SecuritySchemeInfo,
+  SectionGroup,
+  ModelDefinition,
+  Deprecation,
+  DeprecationEntry,
+  RenderContext,
+  RenderedPage,
 } from '../interfaces/documentation.interface';
+import { DocumentSnapshot } from './swagger-integration.service';
 import { ThemeService } from './theme.service';
 import { SidebarService } from './sidebar.service';
 import { FontService } from './font.service';
 import { EnvironmentService } from './environment.service';
 import { BrandingService } from './branding.service';
+import { SchemaService } from './schema.service';
 import * as hbs from 'hbs';
+import { Marked } from 'marked';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 
 @Injectable()
 export class DocumentationService {
   private config: DocumentationConfig = {};
+  /** Compiled once and kept for the process lifetime */
+  private compiledTemplate?: (data: TemplateData) => string;
+  /** Pages rendered from each snapshot; a new snapshot (new document version) starts empty */
+  private renderCache = new WeakMap<DocumentSnapshot, Map<string, RenderedPage>>();
+  /** Own Handlebars environment, so the helpers of one docs instance don't replace another's */
+  private readonly handlebars = hbs.create().handlebars;
+
+  /**
+   * Markdown renderer for spec descriptions: raw HTML is escaped and script URLs are dropped,
+   * since specs can come from remote services
+   */
+  private readonly markdown = new Marked({
+    renderer: {
+      html: ({ text }) => hbs.Utils.escapeExpression(text),
+    },
+    walkTokens: token => {
+      if ((token.type === 'link' || token.type === 'image') && /^\s*(javascript|vbscript|data):/i.test(token.href)) {
+        token.href = '#';
+      }
+    },
+  });
 
   constructor(
     @Inject('DOCUMENTATION_CONFIG') config: DocumentationConfig,
@@ -25,6 +59,7 @@ export class DocumentationService {
     private readonly fontService: FontService,
     private readonly environmentService: EnvironmentService,
     private readonly brandingService: BrandingService,
+    private readonly schemaService: SchemaService,
   ) {
     this.config = { ...this.config, ...config };
     this.setupHandlebars();
@@ -32,6 +67,7 @@ export class DocumentationService {
 
   setConfig(config: DocumentationConfig): void {
     this.config = { ...this.config, ...config };
+    this.renderCache = new WeakMap();
   }
 
   getConfig(): DocumentationConfig {
@@ -40,25 +76,28 @@ export class DocumentationService {
 
   private setupHandlebars(): void {
     // Register Handlebars helpers
-    hbs.registerHelper('eq', (a: any, b: any) => a === b);
-    hbs.registerHelper('unless', (conditional: any, options: any) => {
+    this.handlebars.registerHelper('eq', (a: any, b: any) => a === b);
+    this.handlebars.registerHelper('unless', (conditional: any, options: any) => {
       if (!conditional) {
         return options.fn(this);
       } else {
         return options.inverse(this);
       }
     });
-    hbs.registerHelper('uppercase', (str: string) => str?.toUpperCase());
-    hbs.registerHelper('lowercase', (str: string) => str?.toLowerCase());
-    hbs.registerHelper('json', (obj: any) => JSON.stringify(obj, null, 2));
-    hbs.registerHelper('formatTags', (tags: string | string[]) => {
+    this.handlebars.registerHelper('uppercase', (str: string) => str?.toUpperCase());
+    this.handlebars.registerHelper('lowercase', (str: string) => str?.toLowerCase());
+    this.handlebars.registerHelper('json', (obj: any) => JSON.stringify(obj, null, 2));
+    // String literal for inline scripts; `<` is escaped so the value can't close the <script> element
+    this.handlebars.registerHelper('scriptString', (value: unknown) =>
+      new this.handlebars.SafeString(JSON.stringify(value == null ? '' : String(value)).replace(/</g, '\\u003c')));
+    this.handlebars.registerHelper('formatTags', (tags: string | string[]) => {
       if (Array.isArray(tags)) {
         return tags.join(', ');
       }
       return tags || '';
     });
     
-    hbs.registerHelper('formatRoles', (roles: string | string[]) => {
+    this.handlebars.registerHelper('formatRoles', (roles: string | string[]) => {
       if (Array.isArray(roles)) {
         return roles.join(', ');
       }
@@ -66,123 +105,254 @@ export class DocumentationService {
     });
     
     // Theme-related helpers
-    hbs.registerHelper('themeClass', (className: string, context: any) => {
+    this.handlebars.registerHelper('themeClass', (className: string, context: any) => {
       const themeClasses = this.themeService.getThemeClasses(context.data.root.theme);
       return themeClasses[className] || '';
     });
     
-    hbs.registerHelper('themeCSS', (context: any) => {
-      return new hbs.SafeString(this.themeService.generateThemeCSS(context.data.root.theme));
+    this.handlebars.registerHelper('themeCSS', (context: any) => {
+      return new this.handlebars.SafeString(this.themeService.generateThemeCSS(context.data.root.theme));
     });
     
-    hbs.registerHelper('methodColors', (context: any) => {
-      return new hbs.SafeString(this.themeService.generateMethodColors(context.data.root.theme));
+    this.handlebars.registerHelper('methodColors', (context: any) => {
+      return new this.handlebars.SafeString(this.themeService.generateMethodColors(context.data.root.theme));
     });
 
     // Font-related helpers
-    hbs.registerHelper('fontCSS', (context: any) => {
-      return new hbs.SafeString(this.fontService.generateFontCSS(context.data.root.theme?.fonts));
+    this.handlebars.registerHelper('fontCSS', (context: any) => {
+      return new this.handlebars.SafeString(this.fontService.generateFontCSS(context.data.root.theme?.fonts));
     });
 
-    hbs.registerHelper('responsiveFontCSS', (context: any) => {
-      return new hbs.SafeString(this.fontService.generateResponsiveFontCSS(context.data.root.theme?.fonts));
+    this.handlebars.registerHelper('responsiveFontCSS', (context: any) => {
+      return new this.handlebars.SafeString(this.fontService.generateResponsiveFontCSS(context.data.root.theme?.fonts));
     });
 
-    hbs.registerHelper('fontClass', (className: string, context: any) => {
+    this.handlebars.registerHelper('fontClass', (className: string, context: any) => {
       const fontClasses = this.fontService.getFontClasses(context.data.root.theme?.fonts);
       return fontClasses[className] || '';
     });
 
     // Sidebar-related helpers (Swagger mode)
-    hbs.registerHelper('sidebarHTML', (context: any) => {
+    this.handlebars.registerHelper('sidebarHTML', (context: any) => {
       const sidebarConfig = this.sidebarService.getResolvedSidebarConfig(context.data.root.sidebar);
       const endpoints = context.data.root.endpoints || [];
       const tags = context.data.root.tags || [];
       const brandingConfig = context.data.root.branding;
-      return new hbs.SafeString(this.sidebarService.generateSidebarHTML(sidebarConfig, endpoints, tags, brandingConfig));
+      return new this.handlebars.SafeString(this.sidebarService.generateSidebarHTML(sidebarConfig, endpoints, tags, brandingConfig));
     });
 
     // Structured sidebar helper
-    hbs.registerHelper('structuredSidebarHTML', (context: any) => {
+    this.handlebars.registerHelper('structuredSidebarHTML', (context: any) => {
       const sidebarConfig = this.sidebarService.getResolvedSidebarConfig(context.data.root.sidebar);
       const sections = context.data.root.sections || [];
-      const tags = this.extractTagsFromSections(sections);
+      const roles = this.extractRolesFromSections(sections);
       const brandingConfig = context.data.root.branding;
-      return new hbs.SafeString(this.generateStructuredSidebarHTML(sidebarConfig, sections, tags, brandingConfig));
+      return new this.handlebars.SafeString(this.generateStructuredSidebarHTML(sidebarConfig, sections, roles, brandingConfig));
     });
 
-    hbs.registerHelper('tryPanelHTML', (context: any) => {
+    this.handlebars.registerHelper('tryPanelHTML', (context: any) => {
       const sidebarConfig = this.sidebarService.getResolvedSidebarConfig(context.data.root.sidebar);
       const environmentConfig = context.data.root.environment;
-      return new hbs.SafeString(this.sidebarService.generateTryPanelHTML(sidebarConfig.try!, environmentConfig));
+      return new this.handlebars.SafeString(this.sidebarService.generateTryPanelHTML(sidebarConfig.try!, environmentConfig));
     });
 
-    hbs.registerHelper('sidebarCSS', (context: any) => {
+    this.handlebars.registerHelper('sidebarCSS', (context: any) => {
       const sidebarConfig = this.sidebarService.getResolvedSidebarConfig(context.data.root.sidebar);
-      return new hbs.SafeString(this.sidebarService.generateSidebarCSS(sidebarConfig));
+      return new this.handlebars.SafeString(this.sidebarService.generateSidebarCSS(sidebarConfig));
     });
 
-    hbs.registerHelper('sidebarJS', () => {
-      return new hbs.SafeString(this.sidebarService.generateSidebarJS());
+    this.handlebars.registerHelper('sidebarJS', () => {
+      return new this.handlebars.SafeString(this.sidebarService.generateSidebarJS());
     });
 
     // Environment-related helpers
-    hbs.registerHelper('environmentHTML', (context: any) => {
+    this.handlebars.registerHelper('environmentHTML', (context: any) => {
       const environmentConfig = context.data.root.environment;
-      return new hbs.SafeString(this.environmentService.generateEnvironmentHTML(environmentConfig));
+      return new this.handlebars.SafeString(this.environmentService.generateEnvironmentHTML(environmentConfig));
     });
 
-    hbs.registerHelper('environmentJS', () => {
-      return new hbs.SafeString(this.environmentService.generateEnvironmentJS());
+    this.handlebars.registerHelper('environmentJS', () => {
+      return new this.handlebars.SafeString(this.environmentService.generateEnvironmentJS());
     });
 
     // Branding-related helpers
-    hbs.registerHelper('faviconHTML', (context: any) => {
+    this.handlebars.registerHelper('faviconHTML', (context: any) => {
       const brandingConfig = context.data.root.branding;
-      return new hbs.SafeString(this.brandingService.generateFaviconHTML(brandingConfig));
+      return new this.handlebars.SafeString(this.brandingService.generateFaviconHTML(brandingConfig));
     });
 
-    hbs.registerHelper('headerLogoHTML', (context: any) => {
+    this.handlebars.registerHelper('headerLogoHTML', (context: any) => {
       const brandingConfig = context.data.root.branding;
-      return new hbs.SafeString(this.brandingService.generateHeaderLogoHTML(brandingConfig));
+      return new this.handlebars.SafeString(this.brandingService.generateHeaderLogoHTML(brandingConfig));
     });
 
-    hbs.registerHelper('coverHTML', (context: any) => {
+    this.handlebars.registerHelper('coverHTML', (context: any) => {
       const brandingConfig = context.data.root.branding;
-      return new hbs.SafeString(this.brandingService.generateCoverHTML(brandingConfig));
+      return new this.handlebars.SafeString(this.brandingService.generateCoverHTML(brandingConfig));
     });
 
-    hbs.registerHelper('brandingCSS', (context: any) => {
+    this.handlebars.registerHelper('brandingCSS', (context: any) => {
       const brandingConfig = context.data.root.branding;
-      return new hbs.SafeString(this.brandingService.generateBrandingCSS(brandingConfig));
+      return new this.handlebars.SafeString(this.brandingService.generateBrandingCSS(brandingConfig));
     });
 
     // Swagger mode helpers
-    hbs.registerHelper('endpointId', (endpoint: Endpoint) => {
+    this.handlebars.registerHelper('endpointId', (endpoint: Endpoint) => {
       return `endpoint-${endpoint.method.toLowerCase()}-${endpoint.path.replace(/[^a-zA-Z0-9]/g, '-')}`;
     });
 
     // Structured mode helpers
-    hbs.registerHelper('structuredEndpointId', (sectionId: string, moduleId: string, endpoint: Endpoint) => {
-      return `endpoint-${sectionId}-${moduleId}-${endpoint.method.toLowerCase()}-${endpoint.path.replace(/[^a-zA-Z0-9]/g, '-')}`;
+    this.handlebars.registerHelper('structuredEndpointId', (sectionId: string, moduleId: string, endpoint: Endpoint) => {
+      return this.structuredEndpointId(sectionId, moduleId, endpoint);
     });
 
-    hbs.registerHelper('moduleId', (sectionId: string, moduleId: string) => {
+    this.handlebars.registerHelper('moduleId', (sectionId: string, moduleId: string) => {
       return `module-${sectionId}-${moduleId}`;
     });
 
-    hbs.registerHelper('sectionId', (sectionId: string) => {
+    this.handlebars.registerHelper('sectionId', (sectionId: string) => {
       return `section-${sectionId}`;
     });
 
-    hbs.registerHelper('authBadge', (requiresAuth: boolean) => {
+    this.handlebars.registerHelper('modelId', (name: string) => {
+      return this.schemaService.modelId(name);
+    });
+
+    this.handlebars.registerHelper('securitySchemeLabel', (scheme: SecuritySchemeInfo) => {
+      switch (scheme?.type) {
+        case 'http':
+          return `HTTP ${scheme.scheme || 'auth'}${scheme.bearerFormat ? ` (${scheme.bearerFormat})` : ''}`;
+        case 'apiKey':
+          return `API key in ${scheme.in} "${scheme.parameterName}"`;
+        case 'oauth2':
+          return `OAuth2${scheme.flows?.length ? ` (${scheme.flows.join(', ')})` : ''}`;
+        case 'openIdConnect':
+          return 'OpenID Connect';
+        case 'mutualTLS':
+          return 'Mutual TLS';
+        default:
+          return scheme?.undeclared ? 'Undeclared scheme' : scheme?.type || '';
+      }
+    });
+
+    this.handlebars.registerHelper('markdown', (text: string) => {
+      if (!text) return '';
+      return new this.handlebars.SafeString(this.markdown.parse(text, { async: false }) as string);
+    });
+
+    this.handlebars.registerHelper('deprecationNote', (deprecation: Deprecation, options: any) => {
+      return new this.handlebars.SafeString(this.renderDeprecation(deprecation, options?.data?.root?.replacementAnchors));
+    });
+
+    this.handlebars.registerHelper('allDeprecated', (endpoints: Endpoint[]) => {
+      return Array.isArray(endpoints) && endpoints.length > 0 && endpoints.every(endpoint => endpoint.deprecated);
+    });
+
+    // Examples generated from the schema repeat the request body, only written ones are listed
+    this.handlebars.registerHelper('writtenExamples', (examples: Endpoint['requestExamples']) => {
+      return (examples || []).filter(example => example.name !== 'generated');
+    });
+
+    this.handlebars.registerHelper('authBadge', (requiresAuth: boolean) => {
       if (requiresAuth) {
-        return new hbs.SafeString('<span class="auth-required-badge">🔒 Auth Required</span>');
+        return new this.handlebars.SafeString('<span class="auth-required-badge">🔒 Auth Required</span>');
       }
       return '';
     });
 
-    hbs.registerHelper('formatErrorResponses', (errorResponses: any[]) => {
+    this.handlebars.registerHelper('mediaTypeSwitcher', (mediaTypes: MediaTypeExample[]) => {
+      if (!mediaTypes || mediaTypes.length === 0) return '';
+      const escape = hbs.Utils.escapeExpression;
+
+      const tabs = mediaTypes.map((media, index) => `
+        <button type="button" class="media-type-tab${index === 0 ? ' active' : ''}" role="tab" aria-selected="${index === 0}" data-media-type="${escape(media.mediaType)}">${escape(media.mediaType)}</button>
+      `).join('');
+
+      const panels = mediaTypes.map((media, index) => {
+        const language = media.mediaType.includes('json') || media.mediaType === '*/*' ? 'json' : media.mediaType.includes('xml') ? 'markup' : 'none';
+        const encodingRows = Object.keys(media.encoding || {}).map(field => `
+            <tr>
+              <td class="param-name">${escape(field)}</td>
+              <td class="param-type">${escape(media.encoding[field].contentType || '-')}</td>
+              <td class="param-description">${escape([media.encoding[field].style, media.encoding[field].explode !== undefined ? `explode: ${media.encoding[field].explode}` : ''].filter(Boolean).join(', ') || '-')}</td>
+            </tr>
+        `).join('');
+
+        return `
+          <div class="media-type-panel" role="tabpanel" data-media-type="${escape(media.mediaType)}" data-content-type="${escape(media.contentType)}"${index === 0 ? '' : ' hidden'}>
+            <div class="code-block json-code">
+              <pre><code class="language-${language}">${escape(media.exampleText)}</code></pre>
+            </div>
+            ${encodingRows ? `
+            <table class="params-table media-type-encoding">
+              <thead><tr><th>Field</th><th>Content-Type</th><th>Serialization</th></tr></thead>
+              <tbody>${encodingRows}</tbody>
+            </table>` : ''}
+          </div>
+        `;
+      }).join('');
+
+      return new this.handlebars.SafeString(`
+        <div class="media-type-group">
+          <div class="media-type-tabs" role="tablist">${tabs}</div>
+          ${panels}
+        </div>
+      `);
+    });
+
+    this.handlebars.registerHelper('schemaTable', (schema: SchemaNode) => {
+      if (!schema || !schema.children || schema.children.length === 0) return '';
+      const escape = hbs.Utils.escapeExpression;
+
+      // Nested properties start collapsed; rows are linked to their parent through index paths
+      const renderRows = (nodes: SchemaNode[], parentPath: string, depth: number): string => nodes.map((node, index) => {
+        const rowPath = parentPath ? `${parentPath}.${index}` : String(index);
+        const expandable = !!node.children && node.children.length > 0;
+        const typeLabel = node.modelRef
+          ? `<a href="#${escape(this.schemaService.modelId(node.modelRef))}">${escape(node.type)}</a>`
+          : escape(node.type);
+        const badges = [
+          node.nullable ? '<span class="schema-badge">nullable</span>' : '',
+          node.deprecated ? '<span class="schema-badge deprecated-badge">deprecated</span>' : '',
+          node.composition ? `<span class="schema-badge">${node.composition === 'oneOf' ? 'one of' : 'any of'}</span>` : '',
+          node.circular ? '<span class="schema-badge" title="Already expanded above">circular</span>' : '',
+        ].join('');
+        const constraints = node.constraints.map(constraint => `<code>${escape(constraint)}</code>`).join(' ');
+
+        return `
+          <tr class="schema-row${node.deprecated ? ' deprecated' : ''}" data-path="${rowPath}" data-parent="${parentPath}"${depth > 0 ? ' hidden' : ''}>
+            <td class="param-name" style="padding-left: ${0.75 + depth * 1.25}rem">
+              ${expandable ? `<button type="button" class="schema-toggle" aria-expanded="false" aria-label="Toggle ${escape(node.name)} properties">▶</button>` : ''}
+              ${escape(node.name)}${node.required ? '<span class="required-asterisk">*</span>' : ''}
+            </td>
+            <td class="param-type">${typeLabel} ${badges}</td>
+            <td class="param-description">
+              ${node.description ? `<div>${escape(node.description)}</div>` : ''}
+              ${this.renderDeprecation(node.deprecation)}
+              ${constraints ? `<div class="schema-constraints">${constraints}</div>` : ''}
+            </td>
+          </tr>
+          ${expandable ? renderRows(node.children, rowPath, depth + 1) : ''}
+        `;
+      }).join('');
+
+      return new this.handlebars.SafeString(`
+        <div class="overflow-x-auto schema-table-wrapper">
+          <table class="params-table schema-table">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Type</th>
+                <th>Description</th>
+              </tr>
+            </thead>
+            <tbody>${renderRows(schema.children, '', 0)}</tbody>
+          </table>
+        </div>
+      `);
+    });
+
+    this.handlebars.registerHelper('formatErrorResponses', (errorResponses: any[]) => {
       if (!errorResponses || errorResponses.length === 0) return '';
       
       return errorResponses.map(error => `
@@ -196,10 +366,120 @@ export class DocumentationService {
     });
   }
 
+  private structuredEndpointId(sectionId: string, moduleId: string, endpoint: Endpoint): string {
+    return `endpoint-${sectionId}-${moduleId}-${endpoint.method.toLowerCase()}-${endpoint.path.replace(/[^a-zA-Z0-9]/g, '-')}`;
+  }
+
+  /**
+   * Since / sunset / replacement line shown next to deprecated items
+   */
+  private renderDeprecation(deprecation: Deprecation, anchors: Record<string, string> = {}): string {
+    if (!deprecation || (!deprecation.since && !deprecation.sunset && !deprecation.replacedBy)) return '';
+    const escape = hbs.Utils.escapeExpression;
+    const sunsetPassed = deprecation.sunset && Date.parse(deprecation.sunset) < Date.now();
+    const replacementHref = deprecation.replacementHref || this.replacementHref(deprecation.replacedBy, anchors);
+
+    const parts = [
+      deprecation.since ? `Deprecated since <strong>${escape(deprecation.since)}</strong>` : '',
+      deprecation.sunset ? `<span class="deprecation-sunset${sunsetPassed ? ' sunset-passed' : ''}">Sunset: <strong>${escape(deprecation.sunset)}</strong></span>` : '',
+      deprecation.replacedBy
+        ? `Use ${replacementHref ? `<a href="${escape(replacementHref)}">${escape(deprecation.replacedBy)}</a>` : `<code>${escape(deprecation.replacedBy)}</code>`} instead`
+        : '',
+    ].filter(Boolean);
+
+    return `<div class="deprecation-note">${parts.join(' · ')}</div>`;
+  }
+
+  /**
+   * Anchors of the operations by operationId, `METHOD /path` and path, the forms `x-replaced-by` may use
+   */
+  private replacementAnchors(sections: SectionConfig[]): Record<string, string> {
+    const anchors: Record<string, string> = {};
+    sections.forEach(section => section.modules.forEach(module => module.endpoints.forEach(endpoint => {
+      const anchor = `#${this.structuredEndpointId(section.id, module.id, endpoint)}`;
+      [endpoint.operationId, `${endpoint.method} ${endpoint.path}`, endpoint.path].forEach(key => {
+        if (key && !anchors[key]) anchors[key] = anchor;
+      });
+    })));
+    return anchors;
+  }
+
+  /**
+   * Resolve `x-replaced-by` to the replacing operation's anchor, or keep it when it is a URL
+   */
+  private replacementHref(replacedBy: string | undefined, anchors: Record<string, string>): string | undefined {
+    if (!replacedBy) return undefined;
+    const trimmed = replacedBy.trim();
+    const [method, ...rest] = trimmed.split(/\s+/);
+    return anchors[trimmed]
+      || anchors[`${method.toUpperCase()} ${rest.join(' ')}`]
+      || (/^https?:\/\//i.test(trimmed) ? trimmed : undefined);
+  }
+
+  /**
+   * List every deprecated operation, parameter, property and model for the Deprecations page, soonest sunset first.
+   * Entries carry a copy of the deprecation with its replacement link; the sections are shared with the cached snapshot.
+   */
+  private collectDeprecations(sections: SectionConfig[], models: ModelDefinition[], anchors: Record<string, string>): DeprecationEntry[] {
+    const entries: DeprecationEntry[] = [];
+    const add = (kind: DeprecationEntry['kind'], name: string, deprecation: Deprecation, href: string, location?: string) => {
+      const replacementHref = this.replacementHref(deprecation.replacedBy, anchors);
+      entries.push({ kind, name, location, href, deprecation: replacementHref ? { ...deprecation, replacementHref } : { ...deprecation } });
+    };
+    // Inline body properties only: properties of models are listed with their model
+    const addProperties = (nodes: SchemaNode[] = [], href: string, location: string, prefix = '') => nodes.forEach(node => {
+      const name = `${prefix}${node.name}`;
+      if (node.deprecation) add('property', name, node.deprecation, href, location);
+      if (!node.modelRef) addProperties(node.children, href, location, `${name}.`);
+    });
+
+    sections.forEach(section => section.modules.forEach(module => module.endpoints.forEach(endpoint => {
+      const href = `#${this.structuredEndpointId(section.id, module.id, endpoint)}`;
+      const location = `${endpoint.method} ${endpoint.path}`;
+      if (endpoint.deprecation) add('operation', location, endpoint.deprecation, href, endpoint.summary !== location ? endpoint.summary : undefined);
+      (endpoint.parameters || []).forEach(param => {
+        if (param.deprecation) add('parameter', `${param.name} (${param.in})`, param.deprecation, href, location);
+      });
+      if (!endpoint.requestSchema?.modelRef) addProperties(endpoint.requestSchema?.children, href, `${location} request`);
+      if (!endpoint.responseSchema?.modelRef) addProperties(endpoint.responseSchema?.children, href, `${location} response`);
+    })));
+
+    models.forEach(model => {
+      const href = `#${model.id}`;
+      if (model.deprecation) add('model', model.name, model.deprecation, href);
+      model.fields.forEach(field => {
+        if (field.deprecation) add('property', field.name, field.deprecation, href, model.name);
+      });
+    });
+
+    // Stable sort: entries without a sunset keep their order at the end
+    const sunset = (entry: DeprecationEntry) => Date.parse(entry.deprecation.sunset || '') || Infinity;
+    return entries.sort((a, b) => sunset(a) - sunset(b) || 0);
+  }
+
+  /**
+   * Split sections into runs sharing the same `x-tagGroups` group.
+   * Once groups are used, ungrouped sections are listed under "Other" so they don't read as part of the previous group.
+   */
+  private groupSections(sections: SectionConfig[]): SectionGroup[] {
+    const grouped = sections.some(section => section.group);
+    const groups: SectionGroup[] = [];
+    sections.forEach(section => {
+      const name = section.group || (grouped ? 'Other' : undefined);
+      const current = groups[groups.length - 1];
+      if (current && current.name === name) {
+        current.sections.push(section);
+      } else {
+        groups.push({ name, sections: [section] });
+      }
+    });
+    return groups;
+  }
+
   /**
    * Generate documentation (unified method supporting both modes)
    */
-  generateDocumentation(doc:any, sections: SectionConfig[], configOverride?: Partial<DocumentationConfig>): string {    
+  generateDocumentation(doc:any, sections: SectionConfig[], configOverride?: Partial<DocumentationConfig>, context: RenderContext = {}): string {    
     // Swagger mode
     const tags = this.extractTagsFromSections(sections || []);
     
@@ -213,24 +493,53 @@ export class DocumentationService {
       }
     };
     
+    const models = this.schemaService.buildModels(doc);
+    const replacementAnchors = this.replacementAnchors(sections || []);
+
     const templateData: TemplateData = {
       title: doc.info?.title || effectiveConfig.title || 'API Documentation',
       description: doc.info?.description || effectiveConfig.description,
       version: doc.info?.version || effectiveConfig.version || '1.0.0',
       sections,
+      sectionGroups: this.groupSections(sections || []),
+      services: doc['x-zedoc-services'],
+      models,
+      deprecations: this.collectDeprecations(sections || [], models, replacementAnchors),
+      replacementAnchors,
+      changelog: context.changelog,
+      versions: context.versions,
       tags,
-      roles: effectiveConfig.roles,
+      roles: effectiveConfig.roles || this.extractRolesFromSections(sections || []),
       theme: effectiveConfig.theme,
       sidebar: effectiveConfig.sidebar,
       environment: effectiveConfig.environment,
       branding: effectiveConfig.branding,
     };
 
-    const templatePath = path.join(__dirname, '../templates/documentation.hbs');
-    const template = this.loadTemplate(templatePath);
-    const compiledTemplate = hbs.compile(template);
+    if (!this.compiledTemplate) {
+      const templatePath = path.join(__dirname, '../templates/documentation.hbs');
+      this.compiledTemplate = this.handlebars.compile(this.loadTemplate(templatePath));
+    }
     
-    return compiledTemplate(templateData);
+    return this.compiledTemplate(templateData);
+  }
+
+  /**
+   * Render a document snapshot, reusing the page already rendered for the same theme override and version links.
+   * The cache follows the snapshot, so it is dropped when the document changes, and on setConfig.
+   */
+  renderDocumentation(snapshot: DocumentSnapshot, configOverride?: Partial<DocumentationConfig>, context: RenderContext = {}): RenderedPage {
+    if (!this.renderCache.has(snapshot)) {
+      this.renderCache.set(snapshot, new Map());
+    }
+    const pages = this.renderCache.get(snapshot);
+    const key = JSON.stringify([configOverride || {}, context.versions || []]);
+
+    if (!pages.has(key)) {
+      const html = this.generateDocumentation(snapshot.document, snapshot.sections, configOverride, { changelog: snapshot.changelog, ...context });
+      pages.set(key, { html, etag: `"${createHash('sha1').update(html).digest('base64url')}"` });
+    }
+    return pages.get(key);
   }
 
   private loadTemplate(templatePath: string): string {
@@ -267,6 +576,17 @@ export class DocumentationService {
     return Array.from(tagsSet).sort();
   }
 
+  /**
+   * Roles of all documented endpoints
+   */
+  private extractRolesFromSections(sections: SectionConfig[]): string[] {
+    const roles = new Set<string>();
+    sections.forEach(section => section.modules.forEach(module => module.endpoints.forEach(endpoint => {
+      (endpoint.roles || []).forEach(role => roles.add(role));
+    })));
+    return Array.from(roles).sort();
+  }
+
   /**
    * Generate structured sidebar HTML
    */
@@ -278,19 +598,20 @@ export class DocumentationService {
     const sidebarClass = `sidebar-${sidebarConfig.position}`;
     const collapsibleClass = sidebarConfig.collapsible ? 'collapsible' : '';
     const sidebarLogo = this.brandingService.generateSidebarLogoHTML(brandingConfig);
+    const escape = hbs.Utils.escapeExpression;
 
     let sectionsHTML = '';
     sections.forEach(section => {
       sectionsHTML += `
-        <div class="section-group" data-section="${section.id}">
-          <h3 class="section-title">${section.name}</h3>
+        <div class="section-group" data-section="${escape(section.id)}">
+          <h3 class="section-title">${escape(section.name)}</h3>
           <div class="section-modules">
       `;
       
       section.modules.forEach(module => {
         sectionsHTML += `
-          <div class="module-group" data-module="${module.id}">
-            <h4 class="module-title">${module.name}</h4>
+          <div class="module-group" data-module="${escape(module.id)}">
+            <h4 class="module-title">${escape(module.name)}</h4>
             <div class="module-endpoints">
         `;
         
@@ -298,12 +619,13 @@ export class DocumentationService {
           const title = endpoint.summary || `${endpoint.method} ${endpoint.path}`;
           const authIcon = endpoint.requiresAuth ? '🔒 ' : '';
           sectionsHTML += `
-            <a href="#endpoint-${section.id}-${module.id}-${endpoint.method.toLowerCase()}-${endpoint.path.replace(/[^a-zA-Z0-9]/g, '-')}" 
+            <a href="#${escape(this.structuredEndpointId(section.id, module.id, endpoint))}" 
                class="endpoint-link" 
-               data-method="${endpoint.method}" 
-               data-path="${endpoint.path}"
-               data-requires-auth="${endpoint.requiresAuth}">
-              <span class="endpoint-title">${authIcon}${title}</span>
+               data-method="${escape(endpoint.method)}" 
+               data-path="${escape(endpoint.path)}"
+               data-requires-auth="${endpoint.requiresAuth}"
+               data-roles="${escape((endpoint.roles || []).join(', '))}">
+              <span class="endpoint-title">${authIcon}${escape(title)}</span>
             </a>
           `;
         });
@@ -361,16 +683,18 @@ export class DocumentationService {
   private generateRolesFilter(roles: string[]): string {
     if (roles.length === 0) return '';
 
+    // Roles may come from `x-roles` in a remote spec
+    const escape = hbs.Utils.escapeExpression;
     const roleOptions = roles.map(role => 
       `<label class="tag-filter-item">
-        <input type="checkbox" value="${role}" checked> 
-        <span class="tag-name">${role}</span>
+        <input type="checkbox" value="${escape(role)}" checked> 
+        <span class="tag-name">${escape(role)}</span>
       </label>`
     ).join('');
 
     return `
       <div class="tags-filter-section">
-        <h4 class="filter-title">Filter by Tags</h4>
+        <h4 class="filter-title">Filter by Role</h4>
         <div class="tags-filter-list">
           ${roleOptions}
         </div>
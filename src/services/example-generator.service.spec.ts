@@ -0,0 +1,73 @@
+import { ExampleGeneratorService } from './example-generator.service';
+
+describe('ExampleGeneratorService', () => {
+  const service = new ExampleGeneratorService();
+
+  describe('generatePrimitive', () => {
+    it('keeps emails valid within the length bounds', () => {
+      const short = service.generatePrimitive({ type: 'string', format: 'email', maxLength: 16 }, { path: 'user.email' });
+      const long = service.generatePrimitive({ type: 'string', format: 'email', minLength: 40 }, { path: 'user.email' });
+
+      expect(short).toMatch(/^[a-z.]+@example\.com$/);
+      expect(short.length).toBeLessThanOrEqual(16);
+      expect(long).toMatch(/^[a-z.]+@example\.com$/);
+      expect(long.length).toBeGreaterThanOrEqual(40);
+    });
+
+    it('keeps URIs valid within the length bounds', () => {
+      const uri = service.generatePrimitive({ type: 'string', format: 'uri', maxLength: 22 }, { path: 'link' });
+
+      expect(uri.startsWith('https://example.com/')).toBe(true);
+      expect(uri.length).toBeLessThanOrEqual(22);
+      expect(() => new URL(uri)).not.toThrow();
+    });
+
+    it('does not truncate or pad fixed-shape formats', () => {
+      const uuid = service.generatePrimitive({ type: 'string', format: 'uuid', maxLength: 10 }, { path: 'id' });
+      const dateTime = service.generatePrimitive({ type: 'string', format: 'date-time', minLength: 40 }, { path: 'createdAt' });
+
+      expect(uuid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+      expect(dateTime).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/);
+    });
+
+    describe('integer ranges suggested by the property name', () => {
+      // Smallest and largest values generated for a property name across many paths
+      const spread = (name: string): [number, number] => {
+        const values = Array.from({ length: 50 }, (_, index) => service.generatePrimitive({ type: 'integer' }, { path: `items[${index}].${name}`, name }));
+        return [Math.min(...values), Math.max(...values)];
+      };
+
+      it('matches whole camelCase and snake_case words', () => {
+        const [latMin, latMax] = spread('latitude');
+        const [countMin, countMax] = spread('relatedCount');
+        const [yearMin, yearMax] = spread('birth_year');
+
+        expect(latMin).toBeGreaterThanOrEqual(-90);
+        expect(latMax).toBeLessThanOrEqual(90);
+        expect(countMin).toBeGreaterThanOrEqual(1);
+        expect(countMax).toBeLessThanOrEqual(20);
+        expect(yearMin).toBeGreaterThanOrEqual(2000);
+        expect(yearMax).toBeLessThanOrEqual(2030);
+      });
+
+      it.each(['generated', 'salon', 'long', 'translated'])('does not read %s as a coordinate or a rate', name => {
+        const [min, max] = spread(name);
+
+        expect(min).toBeGreaterThanOrEqual(1);
+        expect(max).toBeGreaterThan(180);
+      });
+    });
+
+    it('clamps huge minLength values', () => {
+      const value = service.generatePrimitive({ type: 'string', minLength: 1e9 }, { path: 'blob' });
+
+      expect(value.length).toBe(256);
+    });
+
+    it('still fits plain strings to the length bounds', () => {
+      const value = service.generatePrimitive({ type: 'string', minLength: 3, maxLength: 3 }, { path: 'code' });
+
+      expect(value).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,481 @@
+import { Injectable, Inject, Optional } from '@nestjs/common';
+import { DocumentationConfig } from '../interfaces/documentation.interface';
+
+const DEFAULT_SEED = 'zedoc';
+const WORDS = ['alpha', 'bravo', 'delta', 'echo', 'harbor', 'lumen', 'nova', 'orbit', 'pixel', 'quartz', 'river', 'summit'];
+const FIRST_NAMES = ['Alice', 'Bruno', 'Chloe', 'Daniel', 'Emma', 'Felix', 'Grace', 'Hugo'];
+const LAST_NAMES = ['Martin', 'Smith', 'Dubois', 'Garcia', 'Kim', 'Nguyen', 'Okafor', 'Rossi'];
+const CITIES = ['Paris', 'Lagos', 'Berlin', 'Montreal', 'Tokyo', 'Lisbon'];
+const COUNTRIES = ['FR', 'NG', 'DE', 'CA', 'JP', 'PT'];
+const PRINTABLE = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+// Longer minLength values are not worth rendering in an example
+const MAX_GENERATED_LENGTH = 256;
+
+// Regex sampling: a tiny parser for the subset of ECMA patterns used in API specs
+type PatternNode =
+  | { kind: 'literal'; chars: string[] }
+  | { kind: 'group'; alternatives: PatternNode[][] }
+  | { kind: 'repeat'; node: PatternNode; min: number; max: number };
+
+export interface ExampleContext {
+  /** Property or parameter name, used for name heuristics */
+  name?: string;
+  /** Location of the value (e.g. `user.address.city`), used to seed the generator */
+  path?: string;
+}
+
+@Injectable()
+export class ExampleGeneratorService {
+  constructor(@Optional() @Inject('DOCUMENTATION_CONFIG') private readonly config?: DocumentationConfig) {}
+
+  /**
+   * Generate a primitive value (string, number, integer, boolean) satisfying the schema constraints.
+   * Values are derived from the configured seed and the value path, so renders are deterministic.
+   */
+  generatePrimitive(schema: any, context: ExampleContext = {}): any {
+    if (!schema) return null;
+
+    if (schema.const !== undefined) return schema.const;
+    if (schema.default !== undefined) return schema.default;
+
+    const random = this.createRandom(context.path || context.name || '');
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return schema.enum[Math.floor(random() * schema.enum.length)];
+    }
+
+    switch (this.primaryType(schema)) {
+      case 'string':
+        return this.generateString(schema, context, random);
+      case 'integer':
+        return this.generateNumber(schema, context, random, true);
+      case 'number':
+        return this.generateNumber(schema, context, random, false);
+      case 'boolean':
+        return random() < 0.5;
+      case 'array':
+        return [];
+      case 'object':
+        return {};
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Type used to generate a value: the first non-null entry of a JSON Schema 2020-12 type array,
+   * or the type implied by the structure when `type` is omitted
+   */
+  primaryType(schema: any): string | undefined {
+    if (!schema) return undefined;
+    if (Array.isArray(schema.type)) {
+      return schema.type.find((type: string) => type !== 'null') || 'null';
+    }
+    if (schema.type) return schema.type;
+    if (schema.properties) return 'object';
+    if (schema.items || schema.prefixItems) return 'array';
+    return undefined;
+  }
+
+  private generateString(schema: any, context: ExampleContext, random: () => number): string {
+    const minLength = Math.min(schema.minLength ?? 0, MAX_GENERATED_LENGTH);
+    const maxLength = schema.maxLength ?? Infinity;
+
+    if (schema.pattern) {
+      const sampled = this.sampleForPattern(schema.pattern, minLength, maxLength, random);
+      if (sampled !== undefined) {
+        return sampled;
+      }
+    }
+
+    const formatted = this.stringForFormat(schema.format, random);
+    if (formatted !== undefined) {
+      return this.fitFormatLength(schema.format, formatted, minLength, maxLength, random);
+    }
+
+    const value = this.stringForName(context.name, random) ?? `${this.pick(WORDS, random)}`;
+    return this.fitLength(value, minLength, maxLength, random);
+  }
+
+  /**
+   * Fit a formatted value to the length bounds by resizing its free part (the local part of an email,
+   * the path of a URI, ...). Fixed-shape values such as UUIDs and dates keep their length,
+   * since a value matching the format is more useful than one matching the bounds.
+   */
+  private fitFormatLength(format: string, value: string, minLength: number, maxLength: number, random: () => number): string {
+    if (value.length >= minLength && value.length <= maxLength) {
+      return value;
+    }
+
+    const parts = this.formatParts(format, value);
+    if (!parts) {
+      return value;
+    }
+
+    const [prefix, free, suffix] = parts;
+    const fixed = prefix.length + suffix.length;
+    if (fixed + 1 > maxLength) {
+      return value;
+    }
+    // A truncated `alice.martin` must not end with the dot
+    const fitted = this.fitLength(free, Math.max(1, minLength - fixed), maxLength - fixed, random).replace(/\.$/, 'x');
+    return `${prefix}${fitted}${suffix}`;
+  }
+
+  /**
+   * Split a formatted value into its fixed prefix, resizable part and fixed suffix
+   */
+  private formatParts(format: string, value: string): [string, string, string] | undefined {
+    switch (format) {
+      case 'email':
+      case 'idn-email': {
+        const at = value.indexOf('@');
+        return ['', value.slice(0, at), value.slice(at)];
+      }
+      case 'uri':
+      case 'url':
+      case 'iri': {
+        const origin = new URL(value).origin;
+        return [`${origin}/`, value.slice(origin.length + 1), ''];
+      }
+      case 'uri-reference':
+      case 'iri-reference':
+        return ['/', value.slice(1), ''];
+      case 'hostname':
+      case 'idn-hostname': {
+        const dot = value.indexOf('.');
+        return ['', value.slice(0, dot), value.slice(dot)];
+      }
+      case 'password':
+        return ['', value, ''];
+      default:
+        return undefined;
+    }
+  }
+
+  private stringForFormat(format: string | undefined, random: () => number): string | undefined {
+    const date = this.randomDate(random);
+    switch (format) {
+      case 'email':
+      case 'idn-email':
+        return `${this.pick(FIRST_NAMES, random).toLowerCase()}.${this.pick(LAST_NAMES, random).toLowerCase()}@example.com`;
+      case 'date-time':
+        return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+      case 'date':
+        return date.toISOString().slice(0, 10);
+      case 'time':
+        return date.toISOString().slice(11, 19) + 'Z';
+      case 'duration':
+        return `PT${1 + Math.floor(random() * 23)}H`;
+      case 'uuid':
+        return this.uuid(random);
+      case 'uri':
+      case 'url':
+      case 'iri':
+        return `https://example.com/${this.pick(WORDS, random)}`;
+      case 'uri-reference':
+      case 'iri-reference':
+        return `/${this.pick(WORDS, random)}`;
+      case 'hostname':
+      case 'idn-hostname':
+        return `${this.pick(WORDS, random)}.example.com`;
+      case 'ipv4':
+        return `192.168.${Math.floor(random() * 256)}.${1 + Math.floor(random() * 254)}`;
+      case 'ipv6':
+        return `2001:db8::${Math.floor(random() * 0xffff).toString(16)}`;
+      case 'byte':
+        return Buffer.from(this.pick(WORDS, random)).toString('base64');
+      case 'binary':
+        return '<binary>';
+      case 'password':
+        return `P@ssw0rd${Math.floor(random() * 100)}`;
+      case 'phone':
+        return this.phone(random);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Guess a realistic value from the property name (email, phone, createdAt, ...)
+   */
+  private stringForName(name: string | undefined, random: () => number): string | undefined {
+    if (!name) return undefined;
+    const key = name.replace(/[-_\s]/g, '').toLowerCase();
+
+    if (key.includes('email')) return this.stringForFormat('email', random);
+    if (key.includes('phone') || key.includes('mobile') || key === 'tel') return this.phone(random);
+    if (/(at|time|timestamp)$/.test(key) && /^(created|updated|deleted|modified|published|expires|expired|last|started|ended|start|end)/.test(key)) {
+      return this.stringForFormat('date-time', random);
+    }
+    if (key.endsWith('date') || key === 'birthday' || key === 'dob') return this.stringForFormat('date', random);
+    if (key === 'id' || key === 'uuid' || key === 'guid' || (key.endsWith('id') && name.length > 2 && /[a-z]Id$|_id$/.test(name))) return this.uuid(random);
+    if (/(url|uri|link|website|avatar|image|picture|photo)$/.test(key)) return this.stringForFormat('uri', random);
+    if (key === 'firstname' || key === 'givenname') return this.pick(FIRST_NAMES, random);
+    if (key === 'lastname' || key === 'surname' || key === 'familyname') return this.pick(LAST_NAMES, random);
+    if (key === 'name' || key === 'fullname' || key === 'displayname') return `${this.pick(FIRST_NAMES, random)} ${this.pick(LAST_NAMES, random)}`;
+    if (key === 'username' || key === 'login' || key === 'handle') return `${this.pick(FIRST_NAMES, random).toLowerCase()}${Math.floor(random() * 100)}`;
+    if (key.includes('password')) return this.stringForFormat('password', random);
+    if (key === 'city') return this.pick(CITIES, random);
+    if (key === 'country' || key === 'countrycode') return this.pick(COUNTRIES, random);
+    if (key === 'zip' || key === 'zipcode' || key === 'postalcode' || key === 'postcode') return String(10000 + Math.floor(random() * 89999));
+    if (key === 'address' || key === 'street' || key === 'addressline1') return `${1 + Math.floor(random() * 200)} ${this.capitalize(this.pick(WORDS, random))} Street`;
+    if (key === 'currency') return this.pick(['USD', 'EUR', 'XOF', 'GBP'], random);
+    if (key === 'locale' || key === 'language' || key === 'lang') return this.pick(['en-US', 'fr-FR', 'de-DE'], random);
+    if (key === 'color' || key === 'colour') return `#${Math.floor(random() * 0xffffff).toString(16).padStart(6, '0')}`;
+    if (key.includes('token')) return Buffer.from(`${this.pick(WORDS, random)}-${Math.floor(random() * 1e6)}`).toString('base64').replace(/=+$/, '');
+    if (key === 'title' || key === 'subject') return `${this.capitalize(this.pick(WORDS, random))} ${this.pick(WORDS, random)}`;
+    if (key === 'description' || key === 'summary' || key === 'comment' || key === 'message' || key === 'note') {
+      return `${this.capitalize(this.pick(WORDS, random))} ${this.pick(WORDS, random)} ${this.pick(WORDS, random)}.`;
+    }
+    return undefined;
+  }
+
+  private generateNumber(schema: any, context: ExampleContext, random: () => number, integer: boolean): number {
+    // OpenAPI 3.0 uses boolean exclusive flags, 3.1 uses numeric bounds
+    let min = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : schema.minimum;
+    let max = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : schema.maximum;
+    const exclusiveMin = typeof schema.exclusiveMinimum === 'number' || schema.exclusiveMinimum === true;
+    const exclusiveMax = typeof schema.exclusiveMaximum === 'number' || schema.exclusiveMaximum === true;
+
+    if (min === undefined && max === undefined) {
+      [min, max] = this.rangeForName(context.name);
+    } else if (min === undefined) {
+      min = Math.min(0, max - 100);
+    } else if (max === undefined) {
+      max = Math.max(min + 100, min * 2);
+    }
+
+    const step = schema.multipleOf || (integer ? 1 : 0.01);
+    // Index range of the multiples of step within the bounds (tolerating floating point error)
+    const lowest = exclusiveMin ? Math.floor(min / step + 1e-9) + 1 : Math.ceil(min / step - 1e-9);
+    const highest = exclusiveMax ? Math.ceil(max / step - 1e-9) - 1 : Math.floor(max / step + 1e-9);
+    if (highest < lowest) {
+      // Unsatisfiable combination: stay within the bounds at least
+      return integer ? Math.ceil(min) : min;
+    }
+
+    const multiple = lowest + Math.floor(random() * (highest - lowest + 1));
+    const value = multiple * step;
+    // Avoid floating point noise such as 0.30000000000000004
+    const decimals = (String(step).split('.')[1] || '').length;
+    return integer ? Math.round(value) : Number(value.toFixed(decimals));
+  }
+
+  /**
+   * Range suggested by the property name, matched on whole words: `birthYear` and `exchange_rate` match, `relatedCount` is not a latitude
+   */
+  private rangeForName(name: string | undefined): [number, number] {
+    const key = (name || '').toLowerCase();
+    const words = (name || '').replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/);
+    const has = (...candidates: string[]) => candidates.some(candidate => words.includes(candidate));
+
+    if (key === 'age') return [18, 90];
+    if (key === 'page') return [1, 5];
+    if (['limit', 'size', 'pagesize', 'perpage', 'per_page', 'take'].includes(key)) return [10, 50];
+    if (['offset', 'skip'].includes(key)) return [0, 100];
+    if (has('year')) return [2000, 2030];
+    if (has('lat', 'latitude')) return [-90, 90];
+    if (has('lng', 'lon', 'longitude')) return [-180, 180];
+    if (has('percent', 'percentage', 'rate')) return [0, 100];
+    if (has('quantity', 'qty', 'count')) return [1, 20];
+    return [1, 1000];
+  }
+
+  private fitLength(value: string, minLength: number, maxLength: number, random: () => number): string {
+    let result = value;
+    while (result.length < minLength) {
+      result += PRINTABLE[Math.floor(random() * 26)];
+    }
+    return result.length > maxLength ? result.slice(0, maxLength) : result;
+  }
+
+  private sampleForPattern(pattern: string, minLength: number, maxLength: number, random: () => number): string | undefined {
+    let regex: RegExp;
+    let nodes: PatternNode[];
+    try {
+      regex = new RegExp(pattern);
+      nodes = this.parsePattern(pattern);
+    } catch {
+      return undefined;
+    }
+
+    // A few attempts, since quantifiers may produce strings outside the length bounds
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const sample = this.renderPattern(nodes, random);
+      if (sample.length >= minLength && sample.length <= maxLength && regex.test(sample)) {
+        return sample;
+      }
+    }
+    return undefined;
+  }
+
+  private parsePattern(pattern: string): PatternNode[] {
+    let position = 0;
+
+    const parseSequence = (): PatternNode[][] => {
+      const alternatives: PatternNode[][] = [[]];
+      while (position < pattern.length && pattern[position] !== ')') {
+        const char = pattern[position];
+        if (char === '|') {
+          position++;
+          alternatives.push([]);
+          continue;
+        }
+        if (char === '^' || char === '$') {
+          position++;
+          continue;
+        }
+
+        let node: PatternNode;
+        if (char === '(') {
+          position++;
+          if (pattern.startsWith('?:', position)) position += 2;
+          else if (pattern[position] === '?') throw new Error('Lookarounds are not supported');
+          node = { kind: 'group', alternatives: parseSequence() };
+          if (pattern[position] !== ')') throw new Error('Unterminated group');
+          position++;
+        } else if (char === '[') {
+          node = { kind: 'literal', chars: parseClass() };
+        } else if (char === '\\') {
+          node = { kind: 'literal', chars: parseEscape() };
+        } else if (char === '.') {
+          position++;
+          node = { kind: 'literal', chars: PRINTABLE.split('') };
+        } else {
+          position++;
+          node = { kind: 'literal', chars: [char] };
+        }
+
+        alternatives[alternatives.length - 1].push(parseQuantifier(node));
+      }
+      return alternatives;
+    };
+
+    const parseQuantifier = (node: PatternNode): PatternNode => {
+      const char = pattern[position];
+      let min: number;
+      let max: number;
+      if (char === '?') { min = 0; max = 1; position++; }
+      else if (char === '*') { min = 0; max = 3; position++; }
+      else if (char === '+') { min = 1; max = 4; position++; }
+      else if (char === '{') {
+        const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(position));
+        if (!match) return node;
+        min = parseInt(match[1]);
+        max = match[2] ? (match[3] ? parseInt(match[3]) : min + 3) : min;
+        position += match[0].length;
+      } else {
+        return node;
+      }
+      // Lazy quantifier marker
+      if (pattern[position] === '?') position++;
+      return { kind: 'repeat', node, min, max };
+    };
+
+    const parseEscape = (): string[] => {
+      const escaped = pattern[position + 1];
+      position += 2;
+      switch (escaped) {
+        case 'd': return '0123456789'.split('');
+        case 'w': return `${PRINTABLE}_`.split('');
+        case 's': return [' '];
+        case 'D': case 'W': case 'S': return ['-'];
+        default: return [escaped];
+      }
+    };
+
+    const parseClass = (): string[] => {
+      position++;
+      const negated = pattern[position] === '^';
+      if (negated) position++;
+
+      const chars: string[] = [];
+      while (position < pattern.length && pattern[position] !== ']') {
+        if (pattern[position] === '\\') {
+          chars.push(...parseEscape());
+        } else if (pattern[position + 1] === '-' && pattern[position + 2] && pattern[position + 2] !== ']') {
+          const start = pattern.charCodeAt(position);
+          const end = pattern.charCodeAt(position + 2);
+          for (let code = start; code <= end; code++) chars.push(String.fromCharCode(code));
+          position += 3;
+        } else {
+          chars.push(pattern[position]);
+          position++;
+        }
+      }
+      if (pattern[position] !== ']') throw new Error('Unterminated character class');
+      position++;
+
+      return negated ? PRINTABLE.split('').filter(char => !chars.includes(char)) : chars;
+    };
+
+    const alternatives = parseSequence();
+    if (position < pattern.length) throw new Error('Unbalanced parenthesis');
+    return [{ kind: 'group', alternatives }];
+  }
+
+  private renderPattern(nodes: PatternNode[], random: () => number): string {
+    return nodes.map(node => {
+      switch (node.kind) {
+        case 'literal':
+          return node.chars.length > 0 ? this.pick(node.chars, random) : '';
+        case 'group':
+          return this.renderPattern(this.pick(node.alternatives, random), random);
+        case 'repeat': {
+          const count = node.min + Math.floor(random() * (node.max - node.min + 1));
+          return Array.from({ length: count }, () => this.renderPattern([node.node], random)).join('');
+        }
+      }
+    }).join('');
+  }
+
+  private randomDate(random: () => number): Date {
+    // Within 2024, whole seconds
+    const start = Date.UTC(2024, 0, 1);
+    return new Date(start + Math.floor(random() * 365 * 24 * 3600) * 1000);
+  }
+
+  private uuid(random: () => number): string {
+    const hex = Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16));
+    hex[12] = '4';
+    hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    const value = hex.join('');
+    return `${value.slice(0, 8)}-${value.slice(8, 12)}-${value.slice(12, 16)}-${value.slice(16, 20)}-${value.slice(20)}`;
+  }
+
+  private phone(random: () => number): string {
+    return `+1555${String(Math.floor(random() * 1e7)).padStart(7, '0')}`;
+  }
+
+  private pick<T>(values: T[], random: () => number): T {
+    return values[Math.floor(random() * values.length)];
+  }
+
+  private capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+
+  /**
+   * Seeded PRNG (mulberry32) keyed by the configured seed and the value path
+   */
+  private createRandom(path: string): () => number {
+    let state = this.hash(`${this.config?.examples?.seed ?? DEFAULT_SEED}:${path}`);
+    return () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private hash(value: string): number {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
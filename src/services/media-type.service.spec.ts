@@ -0,0 +1,33 @@
+import { MediaTypeService } from './media-type.service';
+
+describe('MediaTypeService', () => {
+  const service = new MediaTypeService();
+
+  describe('preferred', () => {
+    it('prefers application/json, then other JSON types, then the first declared type', () => {
+      expect(service.preferred({ 'application/xml': {}, 'application/json; charset=utf-8': {} })).toBe('application/json; charset=utf-8');
+      expect(service.preferred({ 'text/plain': {}, 'application/problem+json': {} })).toBe('application/problem+json');
+      expect(service.preferred({ 'text/csv': {}, 'application/xml': {} })).toBe('text/csv');
+      expect(service.preferred(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('contentType', () => {
+    it('adds a boundary to multipart types and sends JSON for wildcards', () => {
+      expect(service.contentType('multipart/form-data')).toBe('multipart/form-data; boundary=zedoc-boundary');
+      expect(service.contentType('*/*')).toBe('application/json');
+      expect(service.contentType('application/xml')).toBe('application/xml');
+    });
+  });
+
+  describe('serializeExample', () => {
+    it('serializes examples the way they are sent', () => {
+      const value = { name: 'Ada Lovelace', tags: ['math', 'code'] };
+
+      expect(service.serializeExample('application/json', value)).toBe(JSON.stringify(value, null, 2));
+      expect(service.serializeExample('application/x-www-form-urlencoded', value)).toContain('name=Ada');
+      expect(service.serializeExample('multipart/form-data', value)).toContain('Content-Disposition: form-data; name="name"');
+      expect(service.serializeExample('application/xml', value, { name: 'user' })).toContain('<name>Ada Lovelace</name>');
+    });
+  });
+});
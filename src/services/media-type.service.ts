@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import { MediaTypeEncoding } from '../interfaces/documentation.interface';
+
+const MULTIPART_BOUNDARY = 'zedoc-boundary';
+const BINARY_MEDIA_TYPES = ['application/octet-stream', 'application/pdf', 'application/zip', 'application/gzip'];
+const BINARY_MEDIA_PREFIXES = ['image/', 'audio/', 'video/', 'font/'];
+
+export interface SerializeExampleOptions {
+  schema?: any;
+  encoding?: Record<string, MediaTypeEncoding>;
+  name?: string;
+}
+
+@Injectable()
+export class MediaTypeService {
+  /**
+   * Pick the media type used for the single-example fields (JSON first, then the first declared type)
+   */
+  preferred(content: Record<string, any> | undefined): string | undefined {
+    const mediaTypes = Object.keys(content || {});
+    return mediaTypes.find(mediaType => this.essence(mediaType) === 'application/json')
+      || mediaTypes.find(mediaType => this.isJson(mediaType))
+      || mediaTypes[0];
+  }
+
+  /**
+   * Get the Content-Type header to send for a media type
+   */
+  contentType(mediaType: string): string {
+    const essence = this.essence(mediaType);
+    if (essence.startsWith('multipart/') && !/boundary=/i.test(mediaType)) {
+      return `${mediaType}; boundary=${MULTIPART_BOUNDARY}`;
+    }
+    if (essence === '*/*') {
+      return 'application/json';
+    }
+    return mediaType;
+  }
+
+  isJson(mediaType: string): boolean {
+    const essence = this.essence(mediaType);
+    return essence === 'application/json' || essence.endsWith('+json') || essence === '*/*';
+  }
+
+  isXml(mediaType: string): boolean {
+    const essence = this.essence(mediaType);
+    return essence === 'application/xml' || essence === 'text/xml' || essence.endsWith('+xml');
+  }
+
+  isBinary(mediaType: string): boolean {
+    const essence = this.essence(mediaType);
+    return BINARY_MEDIA_TYPES.includes(essence) || BINARY_MEDIA_PREFIXES.some(prefix => essence.startsWith(prefix));
+  }
+
+  /**
+   * Render an example value the way it would be sent over the wire for a media type
+   */
+  serializeExample(mediaType: string, value: any, options: SerializeExampleOptions = {}): string {
+    if (value === undefined) {
+      return '';
+    }
+
+    const essence = this.essence(mediaType);
+    if (this.isJson(mediaType)) {
+      return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+    }
+    if (essence === 'application/x-www-form-urlencoded') {
+      return this.toFormUrlEncoded(value);
+    }
+    if (essence.startsWith('multipart/')) {
+      return this.toMultipart(value, options);
+    }
+    if (this.isXml(mediaType)) {
+      return `<?xml version="1.0" encoding="UTF-8"?>\n${this.toXml(value, options.schema?.xml?.name || options.name || 'root', '')}`;
+    }
+    if (this.isBinary(mediaType)) {
+      return '<binary data>';
+    }
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  }
+
+  private toFormUrlEncoded(value: any): string {
+    if (!value || typeof value !== 'object') {
+      return String(value);
+    }
+
+    const params = new URLSearchParams();
+    Object.keys(value).forEach(key => {
+      const fieldValue = value[key];
+      if (Array.isArray(fieldValue)) {
+        fieldValue.forEach(item => params.append(key, this.stringifyField(item)));
+      } else {
+        params.append(key, this.stringifyField(fieldValue));
+      }
+    });
+    return params.toString();
+  }
+
+  private toMultipart(value: any, options: SerializeExampleOptions): string {
+    if (!value || typeof value !== 'object') {
+      return String(value);
+    }
+
+    const lines: string[] = [];
+    Object.keys(value).forEach(key => {
+      const propertySchema = options.schema?.properties?.[key];
+      const itemSchema = propertySchema?.type === 'array' ? propertySchema.items : propertySchema;
+      const binary = itemSchema?.format === 'binary' || itemSchema?.format === 'base64' || itemSchema?.contentMediaType !== undefined;
+      const partType = options.encoding?.[key]?.contentType || (binary ? 'application/octet-stream' : undefined);
+
+      lines.push(`--${MULTIPART_BOUNDARY}`);
+      lines.push(`Content-Disposition: form-data; name="${key}"${binary ? `; filename="${key}"` : ''}`);
+      if (partType) {
+        lines.push(`Content-Type: ${partType}`);
+      }
+      lines.push('');
+      lines.push(binary ? '<binary data>' : this.stringifyField(value[key]));
+    });
+    lines.push(`--${MULTIPART_BOUNDARY}--`);
+    return lines.join('\r\n');
+  }
+
+  private toXml(value: any, name: string, indent: string): string {
+    if (Array.isArray(value)) {
+      return value.map(item => this.toXml(item, name, indent)).join('\n');
+    }
+    if (value && typeof value === 'object') {
+      const children = Object.keys(value).map(key => this.toXml(value[key], key, `${indent}  `));
+      return `${indent}<${name}>\n${children.join('\n')}\n${indent}</${name}>`;
+    }
+    return `${indent}<${name}>${this.escapeXml(value === null ? '' : String(value))}</${name}>`;
+  }
+
+  private stringifyField(value: any): string {
+    return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  private essence(mediaType: string): string {
+    return mediaType.split(';')[0].trim().toLowerCase();
+  }
+}
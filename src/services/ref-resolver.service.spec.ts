@@ -0,0 +1,80 @@
+import { RefResolverService } from './ref-resolver.service';
+import { SpecLoaderService } from './spec-loader.service';
+
+describe('RefResolverService', () => {
+  let specLoaderService: SpecLoaderService;
+  let service: RefResolverService;
+  let load: jest.SpyInstance;
+
+  const documentWithRef = (ref: string) => ({
+    openapi: '3.0.3',
+    info: { title: 'Billing', version: '1.0.0' },
+    paths: {},
+    components: { schemas: { Invoice: { type: 'object', properties: { customer: { $ref: ref } } } } },
+  });
+
+  beforeEach(() => {
+    specLoaderService = new SpecLoaderService();
+    service = new RefResolverService(specLoaderService);
+    load = jest.spyOn(specLoaderService, 'load').mockResolvedValue({ Customer: { type: 'object' } });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('refuses file refs from a document loaded over http', async () => {
+    const { document, unresolved } = await service.bundle(documentWithRef('file:///etc/passwd#/Customer'), 'https://billing.internal/openapi.json');
+
+    expect(load).not.toHaveBeenCalled();
+    expect(unresolved).toHaveLength(1);
+    expect(unresolved[0].reason).toMatch(/File reference not allowed/);
+    expect(document.components.schemas.Invoice.properties.customer['x-zedoc-unresolved']).toBeDefined();
+  });
+
+  it('refuses refs to another origin unless it is allowed', async () => {
+    const refused = await service.bundle(documentWithRef('http://169.254.169.254/latest#/Customer'), 'https://billing.internal/openapi.json');
+    expect(load).not.toHaveBeenCalled();
+    expect(refused.unresolved[0].reason).toMatch(/not allowed/);
+
+    const allowed = await service.bundle(documentWithRef('https://schemas.example.com/common.json#/Customer'), 'https://billing.internal/openapi.json', {
+      allowedRefOrigins: ['https://schemas.example.com'],
+    });
+    expect(load).toHaveBeenCalledWith('https://schemas.example.com/common.json', expect.anything());
+    expect(allowed.unresolved).toHaveLength(0);
+  });
+
+  it('resolves relative refs on the origin of the document', async () => {
+    const { document, unresolved } = await service.bundle(documentWithRef('./common.json#/Customer'), 'https://billing.internal/specs/openapi.json');
+
+    expect(load).toHaveBeenCalledWith('https://billing.internal/specs/common.json', expect.anything());
+    expect(unresolved).toHaveLength(0);
+    expect(document.components.schemas.Invoice.properties.customer).toEqual({ $ref: '#/components/schemas/Customer' });
+  });
+
+  it('only drops the external documents of the given source from the cache', async () => {
+    await service.bundle(documentWithRef('./customers.json#/Customer'), 'https://billing.internal/openapi.json');
+    await service.bundle(documentWithRef('./accounts.json#/Customer'), 'https://billing.internal/admin/openapi.json');
+    load.mockClear();
+
+    service.clearCache('https://billing.internal/openapi.json');
+    await service.bundle(documentWithRef('./customers.json#/Customer'), 'https://billing.internal/openapi.json');
+    await service.bundle(documentWithRef('./accounts.json#/Customer'), 'https://billing.internal/admin/openapi.json');
+
+    expect(load.mock.calls.map(([source]) => source)).toEqual(['https://billing.internal/customers.json']);
+  });
+
+  it('marks refs with a malformed escape as unresolved without failing the bundle', async () => {
+    const { document, unresolved } = await service.bundle(documentWithRef('./common.json#/Customer%E0%A4%A'), 'https://billing.internal/openapi.json');
+
+    expect(load).not.toHaveBeenCalled();
+    expect(unresolved[0].reason).toMatch(/Invalid reference: URI malformed/);
+    expect(document.components.schemas.Invoice.properties.customer['x-zedoc-unresolved']).toBeDefined();
+  });
+
+  it('refuses schemes other than file and http(s)', async () => {
+    const { unresolved } = await service.bundle(documentWithRef('data:application/json,{}'), './specs/openapi.json');
+
+    expect(load).not.toHaveBeenCalled();
+    expect(unresolved[0].reason).toMatch(/Unsupported reference scheme/);
+  });
+});
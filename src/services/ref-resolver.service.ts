@@ -0,0 +1,269 @@
+import { Injectable } from '@nestjs/common';
+import { SwaggerSourceOptions, UnresolvedReference } from '../interfaces/documentation.interface';
+import { SpecLoaderService } from './spec-loader.service';
+import * as path from 'path';
+import { pathToFileURL, fileURLToPath } from 'url';
+
+// Keys whose values are (maps of, or lists of) JSON schemas
+const SCHEMA_KEYS = ['schema', 'schemas', 'properties', 'items', 'additionalProperties', 'allOf', 'oneOf', 'anyOf', 'not', 'prefixItems', '$defs', 'patternProperties'];
+
+interface BundleContext {
+  rootUri: string;
+  reserved: Set<string>;
+  schemas: Record<string, any>;
+  internalized: Map<string, string>;
+  inlining: Set<string>;
+  unresolved: UnresolvedReference[];
+  documents: Set<string>;
+  options?: SwaggerSourceOptions;
+}
+
+@Injectable()
+export class RefResolverService {
+  private readonly documentCache = new Map<string, Promise<any>>();
+  // External documents loaded by the last bundle of each root document
+  private readonly sourceDocuments = new Map<string, Set<string>>();
+
+  constructor(private readonly specLoaderService: SpecLoaderService) {}
+
+  /**
+   * Resolve every external $ref (relative files and URLs) in a document.
+   * External schemas are added to components.schemas so cycles across files stay intact,
+   * other external objects (parameters, responses, ...) are inlined.
+   * @param document Parsed root document
+   * @param source URL or file path the document was loaded from, used to resolve relative refs
+   */
+  async bundle(document: any, source?: string, options?: SwaggerSourceOptions): Promise<{ document: any; unresolved: UnresolvedReference[] }> {
+    const rootUri = this.toUri(source);
+    const context: BundleContext = {
+      rootUri,
+      reserved: new Set(Object.keys(document.components?.schemas || {})),
+      schemas: {},
+      internalized: new Map(),
+      inlining: new Set(),
+      unresolved: [],
+      documents: new Set(),
+      options,
+    };
+    this.sourceDocuments.set(rootUri, context.documents);
+
+    const bundled = await this.walk(document, rootUri, '', false, context);
+    if (Object.keys(context.schemas).length > 0) {
+      bundled.components = { ...bundled.components, schemas: { ...bundled.components?.schemas, ...context.schemas } };
+    }
+
+    context.unresolved.forEach(unresolved => {
+      console.warn(`⚠️  Unresolved $ref "${unresolved.ref}" at ${unresolved.pointer || '/'} (${unresolved.source}): ${unresolved.reason}`);
+    });
+
+    return { document: bundled, unresolved: context.unresolved };
+  }
+
+  /**
+   * Drop cached external documents so the next bundle reloads them
+   * @param source Only drop the documents referenced by this root document
+   */
+  clearCache(source?: string): void {
+    if (source === undefined) {
+      this.documentCache.clear();
+      this.sourceDocuments.clear();
+      return;
+    }
+
+    const rootUri = this.toUri(source);
+    this.sourceDocuments.get(rootUri)?.forEach(uri => this.documentCache.delete(uri));
+    this.sourceDocuments.delete(rootUri);
+  }
+
+  private async walk(node: any, baseUri: string, pointer: string, inSchema: boolean, context: BundleContext): Promise<any> {
+    if (Array.isArray(node)) {
+      const items = [];
+      for (let i = 0; i < node.length; i++) {
+        items.push(await this.walk(node[i], baseUri, `${pointer}/${i}`, inSchema, context));
+      }
+      return items;
+    }
+
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    if (typeof node.$ref === 'string') {
+      return this.resolveRef(node, baseUri, pointer, inSchema, context);
+    }
+
+    const result: any = {};
+    for (const key of Object.keys(node)) {
+      const childPointer = `${pointer}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+      result[key] = await this.walk(node[key], baseUri, childPointer, inSchema || SCHEMA_KEYS.includes(key), context);
+    }
+    return result;
+  }
+
+  private async resolveRef(node: any, baseUri: string, pointer: string, inSchema: boolean, context: BundleContext): Promise<any> {
+    const ref: string = node.$ref;
+    const siblings = { ...node };
+    delete siblings.$ref;
+
+    // Local refs in the root document are left to the converter
+    if (ref.startsWith('#') && baseUri === context.rootUri) {
+      return node;
+    }
+
+    let absolute: URL;
+    let fragment: string;
+    try {
+      absolute = new URL(ref, baseUri);
+      fragment = decodeURIComponent(absolute.hash.replace(/^#/, ''));
+    } catch (error) {
+      return this.markUnresolved(node, pointer, baseUri, `Invalid reference: ${error.message}`, context);
+    }
+
+    absolute.hash = '';
+    const documentUri = absolute.toString();
+
+    // Refs pointing back into the root document become local refs again
+    if (documentUri === context.rootUri) {
+      return { ...siblings, $ref: `#${fragment}` };
+    }
+
+    const refused = this.refuseReason(absolute, baseUri, context.options);
+    if (refused) {
+      return this.markUnresolved(node, pointer, baseUri, refused, context);
+    }
+
+    const key = `${documentUri}#${fragment}`;
+    if (inSchema && context.internalized.has(key)) {
+      return { ...siblings, $ref: `#/components/schemas/${context.internalized.get(key)}` };
+    }
+
+    let target: any;
+    try {
+      const external = await this.loadDocument(documentUri, context);
+      target = this.resolvePointer(external, fragment);
+    } catch (error) {
+      return this.markUnresolved(node, pointer, baseUri, error.message, context);
+    }
+
+    if (target === undefined) {
+      return this.markUnresolved(node, pointer, baseUri, `Pointer "#${fragment}" not found in ${documentUri}`, context);
+    }
+
+    if (inSchema) {
+      const name = this.uniqueSchemaName(documentUri, fragment, context);
+      // Register before walking so cycles resolve to the component being built
+      context.internalized.set(key, name);
+      context.schemas[name] = await this.walk(target, documentUri, `/components/schemas/${name}`, true, context);
+      return { ...siblings, $ref: `#/components/schemas/${name}` };
+    }
+
+    if (context.inlining.has(key)) {
+      return this.markUnresolved(node, pointer, baseUri, 'Circular reference between external documents', context);
+    }
+
+    context.inlining.add(key);
+    const inlined = await this.walk(target, documentUri, pointer, false, context);
+    context.inlining.delete(key);
+
+    return inlined && typeof inlined === 'object' && !Array.isArray(inlined) ? { ...inlined, ...siblings } : inlined;
+  }
+
+  /**
+   * Files are only read from file documents, and URLs only fetched from the origin of the
+   * referencing document or an origin listed in `allowedRefOrigins`
+   */
+  private refuseReason(target: URL, baseUri: string, options?: SwaggerSourceOptions): string | undefined {
+    const base = new URL(baseUri);
+    if (target.protocol === 'file:') {
+      return base.protocol === 'file:' ? undefined : `File reference not allowed from ${base.origin}`;
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      return `Unsupported reference scheme "${target.protocol}"`;
+    }
+
+    const allowed = (options?.allowedRefOrigins || []).map(origin => this.toOrigin(origin));
+    if (target.origin === base.origin || allowed.includes(target.origin)) {
+      return undefined;
+    }
+    return `Origin ${target.origin} is not allowed (add it to allowedRefOrigins)`;
+  }
+
+  private toOrigin(value: string): string {
+    try {
+      return new URL(value).origin;
+    } catch {
+      return value;
+    }
+  }
+
+  private markUnresolved(node: any, pointer: string, baseUri: string, reason: string, context: BundleContext): any {
+    context.unresolved.push({
+      ref: node.$ref,
+      pointer,
+      source: this.toSource(baseUri),
+      reason,
+    });
+    return { ...node, 'x-zedoc-unresolved': reason };
+  }
+
+  private async loadDocument(uri: string, context: BundleContext): Promise<any> {
+    context.documents.add(uri);
+    if (!this.documentCache.has(uri)) {
+      const source = this.toSource(uri);
+      const { timeout, headers, encoding } = context.options || {};
+      const loading = this.specLoaderService.load(source, { timeout, headers, encoding });
+      // Failed loads are not cached so they can be retried
+      loading.catch(() => this.documentCache.delete(uri));
+      this.documentCache.set(uri, loading);
+    }
+    return this.documentCache.get(uri);
+  }
+
+  /**
+   * Evaluate a JSON pointer (without leading #) against a document
+   */
+  private resolvePointer(document: any, fragment: string): any {
+    if (!fragment || fragment === '/') {
+      return document;
+    }
+
+    const segments = fragment.replace(/^\//, '').split('/')
+      .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+    let current = document;
+    for (const segment of segments) {
+      if (current === null || typeof current !== 'object' || !(segment in current)) {
+        return undefined;
+      }
+      current = current[segment];
+    }
+    return current;
+  }
+
+  private uniqueSchemaName(documentUri: string, fragment: string, context: BundleContext): string {
+    const segments = fragment.split('/').filter(Boolean);
+    const fileName = path.basename(new URL(documentUri).pathname).replace(/\.[^.]+$/, '');
+    const baseName = (segments[segments.length - 1] || fileName || 'Schema').replace(/[^A-Za-z0-9_.-]/g, '_');
+
+    let name = baseName;
+    let counter = 2;
+    while (context.reserved.has(name) || context.schemas[name] !== undefined || Array.from(context.internalized.values()).includes(name)) {
+      name = `${baseName}_${counter++}`;
+    }
+    return name;
+  }
+
+  private toUri(source?: string): string {
+    if (source && this.specLoaderService.isUrl(source)) {
+      return new URL(source).toString();
+    }
+    if (source) {
+      return pathToFileURL(path.resolve(process.cwd(), source)).toString();
+    }
+    return pathToFileURL(`${process.cwd()}${path.sep}`).toString();
+  }
+
+  private toSource(uri: string): string {
+    return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+  }
+}
@@ -0,0 +1,87 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RouteDocumentService } from './route-document.service';
+import { ApiDocDiscoveryService } from './api-doc-discovery.service';
+import { DiscoveredRoute } from '../interfaces/documentation.interface';
+
+class AddressDto {
+  @ApiProperty()
+  city: string;
+}
+
+class CreateUserDto {
+  @ApiProperty({ description: 'Display name' })
+  name: string;
+
+  @ApiPropertyOptional()
+  age?: number;
+
+  @ApiProperty()
+  address: AddressDto;
+
+  // Not decorated: not documented
+  internal = 'secret';
+}
+
+class ListUsersQuery {
+  @ApiPropertyOptional()
+  page?: number;
+}
+
+const constructed = jest.fn();
+
+class GuardedDto {
+  @ApiProperty()
+  token: string;
+
+  constructor() {
+    constructed();
+  }
+}
+
+describe('RouteDocumentService', () => {
+  const service = new RouteDocumentService({} as ApiDocDiscoveryService, { title: 'Users' });
+
+  const route = (overrides: Partial<DiscoveredRoute>): DiscoveredRoute => ({
+    controller: 'UsersController',
+    handler: 'create',
+    method: 'POST',
+    path: '/users',
+    operationId: 'UsersController_create',
+    parameters: [],
+    ...overrides,
+  });
+
+  describe('buildDocument', () => {
+    it('builds DTO schemas from decorator metadata', () => {
+      const document = service.buildDocument([route({ parameters: [{ in: 'body', type: CreateUserDto }] })]);
+
+      expect(document.components.schemas.CreateUserDto).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Display name' },
+          age: { type: 'number' },
+          address: { $ref: '#/components/schemas/AddressDto' },
+        },
+        required: ['name', 'address'],
+      });
+      expect(document.components.schemas.AddressDto.properties.city).toEqual({ type: 'string' });
+    });
+
+    it('expands query DTOs into parameters', () => {
+      const document = service.buildDocument([route({ method: 'GET', handler: 'findAll', parameters: [{ in: 'query', type: ListUsersQuery }] })]);
+
+      expect(document.paths['/users'].get.parameters).toEqual([
+        { name: 'page', in: 'query', required: false, description: undefined, schema: { type: 'number' } },
+      ]);
+    });
+
+    it('never instantiates DTO classes', () => {
+      service.buildDocument([
+        route({ parameters: [{ in: 'body', type: GuardedDto }] }),
+        route({ method: 'GET', handler: 'check', parameters: [{ in: 'query', type: GuardedDto }] }),
+      ]);
+
+      expect(constructed).not.toHaveBeenCalled();
+    });
+  });
+});
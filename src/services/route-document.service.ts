@@ -0,0 +1,211 @@
+import { Injectable, Inject, Optional, Type } from '@nestjs/common';
+import { DiscoveredRoute, DocumentationConfig, RouteParameter } from '../interfaces/documentation.interface';
+import { ApiDocDiscoveryService } from './api-doc-discovery.service';
+
+// Metadata written by the @nestjs/swagger property decorators
+const SWAGGER_PROPERTIES_ARRAY = 'swagger/apiModelPropertiesArray';
+const SWAGGER_PROPERTIES = 'swagger/apiModelProperties';
+
+const PRIMITIVE_TYPES: Type<unknown>[] = [String, Number, Boolean, Date, Array, Object];
+
+@Injectable()
+export class RouteDocumentService {
+  private document: any = null;
+
+  constructor(
+    private readonly apiDocDiscoveryService: ApiDocDiscoveryService,
+    @Optional() @Inject('DOCUMENTATION_CONFIG') private readonly config?: DocumentationConfig,
+  ) {}
+
+  /**
+   * Whether the document should be built from the Nest routes
+   */
+  isEnabled(): boolean {
+    return !!this.config?.routeDiscovery;
+  }
+
+  /**
+   * Get the OpenAPI document built from the Nest routes, built once on first use
+   */
+  getDocument(): any {
+    if (!this.document) {
+      this.document = this.buildDocument(this.apiDocDiscoveryService.getRoutes());
+      console.log(`🧭 Built documentation from ${this.apiDocDiscoveryService.getRoutes().length} Nest route(s)`);
+    }
+    return this.document;
+  }
+
+  /**
+   * Build an OpenAPI 3.0 document from discovered routes.
+   * Controllers become tags, handler arguments become parameters and request bodies,
+   * and DTO classes become component schemas.
+   */
+  buildDocument(routes: DiscoveredRoute[]): any {
+    const schemas: Record<string, any> = {};
+    const paths: Record<string, any> = {};
+    const routeDiscovery = typeof this.config?.routeDiscovery === 'object' ? this.config.routeDiscovery : {};
+    const prefix = (routeDiscovery.globalPrefix ?? this.config?.globalPrefix ?? '').replace(/^\/+|\/+$/g, '');
+
+    routes.forEach(route => {
+      const path = prefix ? `/${prefix}${route.path === '/' ? '' : route.path}` : route.path;
+      const method = route.method.toLowerCase();
+      paths[path] = paths[path] || {};
+      paths[path][method] = this.buildOperation(route, schemas);
+    });
+
+    return {
+      openapi: '3.0.3',
+      info: {
+        title: this.config?.title || 'API Documentation',
+        description: this.config?.description || '',
+        version: this.config?.version || '1.0.0',
+      },
+      servers: this.config?.servers,
+      paths,
+      components: { schemas },
+    };
+  }
+
+  private buildOperation(route: DiscoveredRoute, schemas: Record<string, any>): any {
+    const controller = route.controller.replace(/Controller$/, '') || route.controller;
+    const parameters: any[] = [];
+    const bodyProperties: Record<string, any> = {};
+    let body: any;
+
+    route.parameters.forEach(param => {
+      if (param.in === 'body') {
+        if (param.name) {
+          bodyProperties[param.name] = this.typeToSchema(param.type, schemas);
+        } else {
+          body = this.typeToSchema(param.type, schemas);
+        }
+        return;
+      }
+      parameters.push(...this.buildParameters(param, schemas));
+    });
+
+    // Path placeholders without a matching `@Param` are still part of the URL
+    (route.path.match(/\{[^}]+\}/g) || [])
+      .map(placeholder => placeholder.slice(1, -1))
+      .filter(name => !parameters.some(param => param.in === 'path' && param.name === name))
+      .forEach(name => parameters.push({ name, in: 'path', required: true, schema: { type: 'string' } }));
+
+    if (!body && Object.keys(bodyProperties).length > 0) {
+      body = { type: 'object', properties: bodyProperties };
+    }
+
+    const status = String(route.httpCode || (route.method === 'POST' ? 201 : 200));
+    const responseSchema = route.returnType ? this.typeToSchema(route.returnType, schemas) : undefined;
+
+    return {
+      operationId: route.operationId,
+      summary: this.humanize(route.handler),
+      tags: [controller],
+      'x-zedoc-controller': controller,
+      parameters: parameters.length > 0 ? parameters : undefined,
+      requestBody: body ? { required: true, content: { 'application/json': { schema: body } } } : undefined,
+      responses: {
+        [status]: {
+          description: 'Successful response',
+          content: responseSchema ? { 'application/json': { schema: responseSchema } } : undefined,
+        },
+      },
+    };
+  }
+
+  /**
+   * A named argument is one parameter; an unnamed one (`@Query() query: ListQuery`) is expanded to the DTO properties
+   */
+  private buildParameters(param: RouteParameter, schemas: Record<string, any>): any[] {
+    const location = param.in;
+    if (param.name) {
+      return [{
+        name: param.name,
+        in: location,
+        required: location === 'path',
+        schema: this.typeToSchema(param.type, schemas),
+      }];
+    }
+
+    if (location === 'path') {
+      return [];
+    }
+
+    const properties = this.isDto(param.type) ? this.classProperties(param.type) : [];
+    return properties.map(property => ({
+      name: property.name,
+      in: location,
+      required: property.required,
+      description: property.description,
+      schema: this.typeToSchema(property.type, schemas),
+    }));
+  }
+
+  /**
+   * JSON schema of a declared type; DTO classes are added to `components.schemas` and referenced
+   */
+  private typeToSchema(type: Type<unknown> | undefined, schemas: Record<string, any>): any {
+    switch (type) {
+      case String:
+        return { type: 'string' };
+      case Number:
+        return { type: 'number' };
+      case Boolean:
+        return { type: 'boolean' };
+      case Date:
+        return { type: 'string', format: 'date-time' };
+      case Array:
+        return { type: 'array', items: {} };
+      case undefined:
+      case Object:
+        return { type: 'object' };
+    }
+
+    if (!schemas[type.name]) {
+      // Registered before its properties so self-references stop here
+      schemas[type.name] = { type: 'object' };
+      const properties = this.classProperties(type);
+      const required = properties.filter(property => property.required).map(property => property.name);
+      schemas[type.name] = {
+        type: 'object',
+        properties: Object.fromEntries(properties.map(property => [
+          property.name,
+          { ...this.typeToSchema(property.type, schemas), ...(property.description ? { description: property.description } : {}) },
+        ])),
+        required: required.length > 0 ? required : undefined,
+      };
+    }
+    return { $ref: `#/components/schemas/${type.name}` };
+  }
+
+  /**
+   * Properties of a DTO class declared with @nestjs/swagger decorators.
+   * Only metadata is read: the class is never instantiated.
+   */
+  private classProperties(type: Type<unknown>): Array<{ name: string; type?: Type<unknown>; required: boolean; description?: string }> {
+    const prototype = type.prototype;
+    const names: string[] = (Reflect.getMetadata(SWAGGER_PROPERTIES_ARRAY, prototype) || []).map((name: string) => name.replace(/^:/, ''));
+
+    return Array.from(new Set(names)).map(name => {
+      const swagger = Reflect.getMetadata(SWAGGER_PROPERTIES, prototype, name) || {};
+      return {
+        name,
+        type: typeof swagger.type === 'function' ? swagger.type : Reflect.getMetadata('design:type', prototype, name),
+        required: swagger.required !== false,
+        description: swagger.description,
+      };
+    });
+  }
+
+  private isDto(type: Type<unknown> | undefined): type is Type<unknown> {
+    return typeof type === 'function' && !PRIMITIVE_TYPES.includes(type);
+  }
+
+  /**
+   * `findAllUsers` -> `Find all users`
+   */
+  private humanize(name: string): string {
+    const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+}
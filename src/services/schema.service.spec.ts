@@ -0,0 +1,143 @@
+import { SchemaService } from './schema.service';
+import { SchemaNode } from '../interfaces/documentation.interface';
+
+describe('SchemaService', () => {
+  const service = new SchemaService();
+
+  const findChild = (node: SchemaNode, name: string) => node.children?.find(child => child.name === name);
+
+  describe('buildModels', () => {
+    it('lists components sorted by name, with allOf compositions flattened into fields', () => {
+      const models = service.buildModels({
+        components: {
+          schemas: {
+            Pet: { type: 'object', required: ['name'], properties: { name: { type: 'string' }, tag: { type: 'string', maxLength: 20 } } },
+            Dog: { allOf: [{ $ref: '#/components/schemas/Pet' }, { type: 'object', properties: { breed: { type: 'string', enum: ['lab', 'pug'] } } }] },
+            Status: { type: 'string', enum: ['active', 'archived'] },
+          },
+        },
+      });
+
+      expect(models.map(model => [model.id, model.type])).toEqual([['model-Dog', 'object'], ['model-Pet', 'object'], ['model-Status', 'string']]);
+      expect(models[0].fields.map(field => [field.name, field.required])).toEqual([['name', true], ['tag', false], ['breed', false]]);
+      expect(models[2].enum).toEqual(['active', 'archived']);
+    });
+  });
+
+  describe('describeDeprecation', () => {
+    it('returns nothing for an operation without deprecation details', () => {
+      expect(service.describeDeprecation({ summary: 'List users' })).toBeUndefined();
+    });
+
+    it('treats a sunset date or a replacement as a deprecation', () => {
+      expect(service.describeDeprecation({ 'x-replaced-by': 'GET /v2/users' })).toEqual({ replacedBy: 'GET /v2/users' });
+      expect(service.describeDeprecation({ 'x-sunset': '2027-01-31' })).toEqual({ sunset: '2027-01-31' });
+    });
+
+    it('formats Date values as calendar days', () => {
+      expect(service.describeDeprecation({ deprecated: true, 'x-deprecated-since': new Date('2026-03-01T00:00:00Z') }))
+        .toEqual({ since: '2026-03-01' });
+    });
+  });
+
+  describe('buildSchemaTree', () => {
+    it('marks recursive component refs as circular', () => {
+      const document = {
+        components: {
+          schemas: {
+            Category: { type: 'object', properties: { name: { type: 'string' }, parent: { $ref: '#/components/schemas/Category' } } },
+          },
+        },
+      };
+
+      const tree = service.buildSchemaTree({ $ref: '#/components/schemas/Category' }, document);
+
+      expect(findChild(tree, 'parent')?.circular).toBe(true);
+    });
+
+    it('marks recursive root $defs refs as circular', () => {
+      const document = {
+        components: {
+          schemas: {
+            Tree: {
+              type: 'object',
+              properties: { root: { $ref: '#/$defs/Node' } },
+              $defs: {
+                Node: { type: 'object', properties: { value: { type: 'string' }, children: { type: 'array', items: { $ref: '#/$defs/Node' } } } },
+              },
+            },
+          },
+        },
+      };
+
+      const tree = service.buildSchemaTree({ $ref: '#/components/schemas/Tree' }, document);
+      const root = findChild(tree, 'root');
+
+      expect(findChild(root, 'value')).toBeDefined();
+      expect(findChild(root, 'children')?.circular).toBe(true);
+    });
+
+    it('marks recursive nested component $defs refs as circular', () => {
+      const document = {
+        components: {
+          schemas: {
+            Menu: {
+              type: 'object',
+              properties: { item: { $ref: '#/components/schemas/Menu/$defs/Item' } },
+              $defs: {
+                Item: { type: 'object', properties: { label: { type: 'string' }, submenu: { $ref: '#/components/schemas/Menu/$defs/Item' } } },
+              },
+            },
+          },
+        },
+      };
+
+      const tree = service.buildSchemaTree({ $ref: '#/components/schemas/Menu' }, document);
+
+      expect(findChild(findChild(tree, 'item'), 'submenu')?.circular).toBe(true);
+    });
+
+    it('marks a self-referencing array component as circular', () => {
+      const document = {
+        components: {
+          schemas: {
+            Node: { type: 'array', items: { type: 'object', properties: { children: { $ref: '#/components/schemas/Node' } } } },
+          },
+        },
+      };
+
+      const tree = service.buildSchemaTree({ $ref: '#/components/schemas/Node' }, document);
+
+      expect(findChild(tree, 'children')?.circular).toBe(true);
+    });
+
+    it('marks a self-referencing nullable component as circular', () => {
+      const document = {
+        components: {
+          schemas: {
+            Link: { oneOf: [{ type: 'null' }, { type: 'object', properties: { next: { $ref: '#/components/schemas/Link' } } }] },
+          },
+        },
+      };
+
+      const tree = service.buildSchemaTree({ $ref: '#/components/schemas/Link' }, document);
+
+      expect(findChild(tree, 'next')?.circular).toBe(true);
+    });
+
+    it('expands the same model again on sibling paths', () => {
+      const document = {
+        components: { schemas: { Address: { type: 'object', properties: { city: { type: 'string' } } } } },
+      };
+      const schema = {
+        type: 'object',
+        properties: { billing: { $ref: '#/components/schemas/Address' }, shipping: { $ref: '#/components/schemas/Address' } },
+      };
+
+      const tree = service.buildSchemaTree(schema, document);
+
+      expect(findChild(findChild(tree, 'billing'), 'city')).toBeDefined();
+      expect(findChild(findChild(tree, 'shipping'), 'city')).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import { Injectable } from '@nestjs/common';
+import { Deprecation, ModelDefinition, ModelField, SchemaNode } from '../interfaces/documentation.interface';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+@Injectable()
+export class SchemaService {
+  /**
+   * Build the model reference from `components.schemas`
+   */
+  buildModels(document: any): ModelDefinition[] {
+    const schemas = document?.components?.schemas || {};
+
+    return Object.keys(schemas).sort((a, b) => a.localeCompare(b)).map(name => {
+      const schema = schemas[name] || {};
+      const { properties, required } = this.collectProperties(schema, document);
+      const deprecation = this.describeDeprecation(schema);
+
+      return {
+        id: this.modelId(name),
+        name,
+        // allOf compositions are flattened into fields, so they read as plain objects
+        type: Object.keys(properties).length > 0 ? 'object' : this.describeType(schema),
+        description: schema.description,
+        deprecated: deprecation !== undefined || undefined,
+        deprecation,
+        enum: Array.isArray(schema.enum) ? schema.enum : undefined,
+        fields: Object.keys(properties).map(field => this.buildField(field, properties[field], required.includes(field), document)),
+      };
+    });
+  }
+
+  /**
+   * Resolve a body schema into a property tree.
+   * Arrays expose the properties of their items, oneOf/anyOf expose one child per option,
+   * and a $ref already being expanded on the current path (a component or a nested `$defs` entry)
+   * is marked as circular instead of expanded again.
+   */
+  buildSchemaTree(schema: any, document: any, name = '', required = false, refStack: string[] = []): SchemaNode {
+    const node: SchemaNode = this.buildField(name, schema || {}, required, document);
+    const ref = this.schemaRef(schema);
+    if (ref && refStack.includes(ref)) {
+      return { ...node, circular: true };
+    }
+
+    const stack = ref ? [...refStack, ref] : refStack;
+    // An inline wrapper shares its $ref with what it wraps, so the wrapped schema starts from the caller's stack;
+    // a wrapper reached through its own $ref (`Node: { type: array, items: ... }`) is already being expanded
+    const wrappedStack = typeof schema?.$ref === 'string' ? stack : refStack;
+    const resolved = this.resolve(schema, document) || {};
+    const options = (resolved.oneOf || resolved.anyOf || []).filter((option: any) => option?.type !== 'null');
+
+    if (options.length === 1) {
+      // 3.1 nullable wrapper (`oneOf: [{ type: 'null' }, X]`): document X itself
+      const option = this.buildSchemaTree(options[0], document, name, required, wrappedStack);
+      node.circular = option.circular;
+      node.composition = option.composition;
+      node.children = option.children;
+    } else if (options.length > 1) {
+      node.composition = resolved.oneOf ? 'oneOf' : 'anyOf';
+      node.children = options.map((option: any) => this.buildSchemaTree(option, document, this.describeType(option), false, stack));
+    } else if (this.hasType(resolved, 'array') && Array.isArray(resolved.prefixItems)) {
+      node.children = resolved.prefixItems.map((item: any, index: number) => this.buildSchemaTree(item, document, `[${index}]`, true, stack));
+    } else if (this.hasType(resolved, 'array') && resolved.items) {
+      const items = this.buildSchemaTree(resolved.items, document, name, required, wrappedStack);
+      node.circular = items.circular;
+      node.composition = items.composition;
+      node.children = items.children;
+    } else {
+      const { properties, required: requiredFields } = this.collectProperties(schema, document);
+      const fields = Object.keys(properties);
+      if (fields.length > 0) {
+        node.children = fields.map(field => this.buildSchemaTree(properties[field], document, field, requiredFields.includes(field), stack));
+      }
+    }
+
+    return node;
+  }
+
+  /**
+   * Get the model a schema points to: a component ref, an array of component refs or a nullable `allOf`/`oneOf` wrapper
+   */
+  modelName(schema: any): string | undefined {
+    if (!schema) return undefined;
+    // Refs into a component's nested $defs are not models of their own
+    if (typeof schema.$ref === 'string' && schema.$ref.startsWith(SCHEMA_REF_PREFIX) && !schema.$ref.slice(SCHEMA_REF_PREFIX.length).includes('/')) {
+      return this.decode(schema.$ref.slice(SCHEMA_REF_PREFIX.length));
+    }
+    if (this.hasType(schema, 'array') && schema.items) {
+      return this.modelName(schema.items);
+    }
+    if (Array.isArray(schema.allOf) && schema.allOf.length === 1) {
+      return this.modelName(schema.allOf[0]);
+    }
+    const options = (schema.oneOf || schema.anyOf || []).filter((option: any) => option?.type !== 'null');
+    if (options.length === 1) {
+      return this.modelName(options[0]);
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the $ref a schema points to, following the same wrappers as `modelName`
+   */
+  private schemaRef(schema: any): string | undefined {
+    if (!schema) return undefined;
+    if (typeof schema.$ref === 'string') {
+      return schema.$ref;
+    }
+    if (this.hasType(schema, 'array') && schema.items) {
+      return this.schemaRef(schema.items);
+    }
+    if (Array.isArray(schema.allOf) && schema.allOf.length === 1) {
+      return this.schemaRef(schema.allOf[0]);
+    }
+    const options = (schema.oneOf || schema.anyOf || []).filter((option: any) => option?.type !== 'null');
+    if (options.length === 1) {
+      return this.schemaRef(options[0]);
+    }
+    return undefined;
+  }
+
+  /**
+   * Anchor id of a model in the Models section
+   */
+  modelId(name: string): string {
+    return `model-${name.replace(/[^a-zA-Z0-9_-]/g, '-')}`;
+  }
+
+  /**
+   * Human readable type, e.g. `string (email)`, `Pet[]`, `Cat | Dog`
+   */
+  describeType(schema: any): string {
+    if (!schema) return 'any';
+
+    const model = typeof schema.$ref === 'string' ? this.modelName(schema) || this.decode(schema.$ref.split('/').pop()) : undefined;
+    if (model) return model;
+    if (schema.const !== undefined && schema.type === undefined) {
+      return schema.const === null ? 'null' : Array.isArray(schema.const) ? 'array' : typeof schema.const;
+    }
+
+    if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+      // A `{ type: 'null' }` option is reported through isNullable
+      const options = (schema.oneOf || schema.anyOf).filter((option: any) => option?.type !== 'null');
+      return options.map((option: any) => this.describeType(option)).join(' | ') || 'null';
+    }
+    if (Array.isArray(schema.allOf)) {
+      return schema.allOf.length === 1 ? this.describeType(schema.allOf[0]) : schema.allOf.map((part: any) => this.describeType(part)).join(' & ');
+    }
+
+    const types: string[] = (Array.isArray(schema.type) ? schema.type : [schema.type || (schema.properties ? 'object' : 'any')])
+      .filter((type: string) => type !== 'null');
+    const described = types.map(type => {
+      if (type === 'array' && Array.isArray(schema.prefixItems)) {
+        return `[${schema.prefixItems.map((item: any) => this.describeType(item)).join(', ')}${schema.items ? `, ...${this.describeType(schema.items)}[]` : ''}]`;
+      }
+      if (type === 'array') {
+        return `${this.describeType(schema.items)}[]`;
+      }
+      if (type === 'object' && schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        return `map<string, ${this.describeType(schema.additionalProperties)}>`;
+      }
+      return schema.format ? `${type} (${schema.format})` : type;
+    });
+
+    return described.join(' | ') || 'null';
+  }
+
+  /**
+   * Whether null is an accepted value (OpenAPI 3.0 `nullable` or a 3.1 type array containing `null`)
+   */
+  isNullable(schema: any): boolean {
+    if (!schema) return false;
+    return schema.nullable === true
+      || (Array.isArray(schema.type) && schema.type.includes('null'))
+      || (Array.isArray(schema.oneOf || schema.anyOf) && (schema.oneOf || schema.anyOf).some((option: any) => option?.type === 'null'));
+  }
+
+  /**
+   * Validation keywords as short readable strings
+   */
+  describeConstraints(schema: any): string[] {
+    if (!schema) return [];
+    const constraints: string[] = [];
+
+    if (schema.minLength !== undefined) constraints.push(`min length: ${schema.minLength}`);
+    if (schema.maxLength !== undefined) constraints.push(`max length: ${schema.maxLength}`);
+    if (schema.pattern !== undefined) constraints.push(`pattern: ${schema.pattern}`);
+    if (typeof schema.exclusiveMinimum === 'number') constraints.push(`> ${schema.exclusiveMinimum}`);
+    else if (schema.minimum !== undefined) constraints.push(`${schema.exclusiveMinimum === true ? '>' : '>='} ${schema.minimum}`);
+    if (typeof schema.exclusiveMaximum === 'number') constraints.push(`< ${schema.exclusiveMaximum}`);
+    else if (schema.maximum !== undefined) constraints.push(`${schema.exclusiveMaximum === true ? '<' : '<='} ${schema.maximum}`);
+    if (schema.multipleOf !== undefined) constraints.push(`multiple of ${schema.multipleOf}`);
+    if (schema.minItems !== undefined) constraints.push(`min items: ${schema.minItems}`);
+    if (schema.maxItems !== undefined) constraints.push(`max items: ${schema.maxItems}`);
+    if (schema.uniqueItems) constraints.push('unique items');
+    if (Array.isArray(schema.enum)) constraints.push(`one of: ${schema.enum.map((value: any) => JSON.stringify(value)).join(', ')}`);
+    if (schema.const !== undefined) constraints.push(`constant: ${JSON.stringify(schema.const)}`);
+    if (schema.default !== undefined) constraints.push(`default: ${JSON.stringify(schema.default)}`);
+    if (schema.readOnly) constraints.push('read only');
+    if (schema.writeOnly) constraints.push('write only');
+
+    return constraints;
+  }
+
+  /**
+   * Deprecation details of an operation, parameter or schema.
+   * A sunset date or replacement implies deprecation even without `deprecated: true`.
+   */
+  describeDeprecation(source: any): Deprecation | undefined {
+    const since = this.formatDate(source?.['x-deprecated-since']);
+    const sunset = this.formatDate(source?.['x-sunset']);
+    const replacedBy = typeof source?.['x-replaced-by'] === 'string' ? source['x-replaced-by'] : undefined;
+
+    if (source?.deprecated !== true && !since && !sunset && !replacedBy) {
+      return undefined;
+    }
+    return { since, sunset, replacedBy };
+  }
+
+  private buildField(name: string, schema: any, required: boolean, document: any): ModelField {
+    const deprecation = this.describeDeprecation(schema);
+
+    return {
+      name,
+      type: this.describeType(schema),
+      required,
+      nullable: this.isNullable(schema),
+      description: schema?.description ?? this.resolve(schema, document)?.description,
+      deprecated: deprecation !== undefined || undefined,
+      deprecation,
+      // Enum and constraint keywords usually live on the referenced schema
+      constraints: this.describeConstraints(schema?.$ref ? this.resolve(schema, document) : schema),
+      modelRef: this.modelName(schema),
+    };
+  }
+
+  /**
+   * Merge properties and required lists, following allOf compositions
+   */
+  private collectProperties(schema: any, document: any, seen: Set<any> = new Set()): { properties: Record<string, any>; required: string[] } {
+    const resolved = this.resolve(schema, document);
+    if (!resolved || seen.has(resolved)) {
+      return { properties: {}, required: [] };
+    }
+    seen.add(resolved);
+
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+    (resolved.allOf || []).forEach((part: any) => {
+      const collected = this.collectProperties(part, document, seen);
+      Object.assign(properties, collected.properties);
+      required.push(...collected.required);
+    });
+
+    Object.assign(properties, resolved.properties || {});
+    required.push(...(resolved.required || []));
+    return { properties, required };
+  }
+
+  private hasType(schema: any, type: string): boolean {
+    return Array.isArray(schema?.type) ? schema.type.includes(type) : schema?.type === type;
+  }
+
+  /**
+   * Resolve a local $ref (`#/components/...`, `#/$defs/...`).
+   * OpenAPI 3.1 generators often emit `#/$defs/Name` for definitions nested in a component schema,
+   * so those fall back to the `$defs` of any component.
+   */
+  resolveRef(ref: string, document: any): any {
+    if (!ref.startsWith('#/')) {
+      return undefined;
+    }
+
+    let current = document;
+    for (const segment of ref.slice(2).split('/').map(part => this.decode(part))) {
+      if (current === null || typeof current !== 'object' || !(segment in current)) {
+        current = undefined;
+        break;
+      }
+      current = current[segment];
+    }
+
+    const nestedDef = /^#\/\$defs\/([^/]+)$/.exec(ref);
+    if (current === undefined && nestedDef) {
+      const schemas = document?.components?.schemas || {};
+      const owner = Object.keys(schemas).find(name => schemas[name]?.$defs?.[this.decode(nestedDef[1])] !== undefined);
+      return owner ? schemas[owner].$defs[this.decode(nestedDef[1])] : undefined;
+    }
+    return current;
+  }
+
+  private resolve(schema: any, document: any): any {
+    return typeof schema?.$ref === 'string' ? this.resolveRef(schema.$ref, document) : schema;
+  }
+
+  /**
+   * Dates are usually strings; documents built in code, or parsed with a YAML 1.1 schema, may hold Date objects
+   */
+  private formatDate(value: any): string | undefined {
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? undefined : value.toISOString().slice(0, 10);
+    }
+    return value !== undefined && value !== null && value !== '' ? String(value) : undefined;
+  }
+
+  private decode(segment: string): string {
+    return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+  }
+}
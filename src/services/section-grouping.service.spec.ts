@@ -0,0 +1,63 @@
+import { SectionGroupingService } from './section-grouping.service';
+import { GroupingStrategy, NormalizedOperation } from '../interfaces/documentation.interface';
+
+describe('SectionGroupingService', () => {
+  const service = new SectionGroupingService();
+
+  const operation = (method: string, path: string, tags: string[], controller?: string): NormalizedOperation => ({
+    method,
+    path,
+    summary: `${method} ${path}`,
+    description: '',
+    tags,
+    controller,
+    operation: {},
+    endpoint: { method, path, summary: `${method} ${path}`, description: '', tags },
+  });
+
+  const operations = [
+    operation('GET', '/api/v1/users', ['Accounts'], 'Users'),
+    operation('GET', '/api/v1/users/{id}', ['Accounts'], 'Users'),
+    operation('POST', '/api/v1/orders', [], 'Orders'),
+  ];
+
+  const outline = (strategy: Parameters<SectionGroupingService['group']>[1]) =>
+    service.group(operations, strategy).map(section => [section.name, section.modules.map(module => module.name)]);
+
+  describe('group', () => {
+    it('groups by tag, then by resource path', () => {
+      expect(outline('tag-resource')).toEqual([
+        ['Accounts', ['/api/v1/users']],
+        ['Default', ['/api/v1/orders']],
+      ]);
+    });
+
+    it('groups by path prefix, skipping api and version segments', () => {
+      expect(outline('path-prefix')).toEqual([
+        ['users', ['/api/v1/users']],
+        ['orders', ['/api/v1/orders']],
+      ]);
+    });
+
+    it('groups by controller', () => {
+      expect(outline('controller').map(([name]) => name)).toEqual(['Users', 'Orders']);
+    });
+
+    it('lists every operation in one section when flat', () => {
+      expect(outline('flat')).toEqual([
+        ['Endpoints', ['GET /api/v1/users', 'GET /api/v1/users/{id}', 'POST /api/v1/orders']],
+      ]);
+    });
+
+    it('hands the operations to a grouping function', () => {
+      const grouping = jest.fn(() => []);
+
+      expect(service.group(operations, grouping)).toEqual([]);
+      expect(grouping).toHaveBeenCalledWith(operations);
+    });
+
+    it('rejects unknown strategies', () => {
+      expect(() => service.group(operations, 'alphabetical' as GroupingStrategy)).toThrow('Unknown grouping strategy "alphabetical"');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import { GroupingFunction, GroupingStrategy, ModuleConfig, NormalizedOperation, SectionConfig } from '../interfaces/documentation.interface';
+
+interface SectionBucket {
+  id: string;
+  name: string;
+  service?: NormalizedOperation['service'];
+  modules: Map<string, { id: string; name: string; operations: NormalizedOperation[] }>;
+}
+
+@Injectable()
+export class SectionGroupingService {
+  /**
+   * Arrange operations into sections and modules with a built-in strategy or a user function
+   */
+  group(operations: NormalizedOperation[], strategy: GroupingStrategy | GroupingFunction = 'tag-resource'): SectionConfig[] {
+    if (typeof strategy === 'function') {
+      return strategy(operations);
+    }
+
+    switch (strategy) {
+      case 'tag-resource':
+        return this.buildSections(operations, operation => operation.tags.length > 0 ? operation.tags : ['Default'], operation => this.resourcePath(operation.path));
+      case 'path-prefix':
+        return this.buildSections(operations, operation => [this.pathPrefix(operation.path)], operation => this.resourcePath(operation.path));
+      case 'controller':
+        return this.buildSections(operations, operation => [operation.controller || operation.tags[0] || 'Default'], operation => this.resourcePath(operation.path));
+      case 'flat':
+        return this.buildSections(operations, () => ['Endpoints'], operation => `${operation.method} ${operation.path}`, operation => operation.summary);
+      default:
+        throw new Error(`Unknown grouping strategy "${strategy}"`);
+    }
+  }
+
+  /**
+   * Resource an operation acts on: its path without trailing parameters (`/users/{id}` -> `/users`)
+   */
+  resourcePath(path: string): string {
+    const segments = path.split('/').filter(Boolean);
+    while (segments.length > 1 && /^\{.+\}$/.test(segments[segments.length - 1])) {
+      segments.pop();
+    }
+    return `/${segments.join('/')}`;
+  }
+
+  /**
+   * First meaningful path segment, skipping `api` and version segments (`/api/v1/users/{id}` -> `users`)
+   */
+  pathPrefix(path: string): string {
+    const segment = path.split('/').find(part => part && !/^api$/i.test(part) && !/^v\d+(\.\d+)*$/i.test(part) && !/^\{.+\}$/.test(part));
+    return segment || '/';
+  }
+
+  private buildSections(
+    operations: NormalizedOperation[],
+    sectionKeys: (operation: NormalizedOperation) => string[],
+    moduleKey: (operation: NormalizedOperation) => string,
+    moduleName: (operation: NormalizedOperation) => string = moduleKey,
+  ): SectionConfig[] {
+    const buckets = new Map<string, SectionBucket>();
+
+    operations.forEach(operation => {
+      sectionKeys(operation).forEach(name => {
+        // Aggregated services keep their own sections even when names collide
+        const bucketKey = `${operation.service?.id || ''}::${name}`;
+        if (!buckets.has(bucketKey)) {
+          buckets.set(bucketKey, {
+            id: operation.service ? `${operation.service.id}-${this.sanitizeId(name)}` : this.sanitizeId(name),
+            name,
+            service: operation.service,
+            modules: new Map(),
+          });
+        }
+
+        const bucket = buckets.get(bucketKey);
+        const key = moduleKey(operation);
+        if (!bucket.modules.has(key)) {
+          bucket.modules.set(key, { id: this.sanitizeId(key), name: moduleName(operation), operations: [] });
+        }
+        bucket.modules.get(key).operations.push(operation);
+      });
+    });
+
+    return Array.from(buckets.values()).map(bucket => ({
+      id: bucket.id,
+      name: bucket.name,
+      service: bucket.service,
+      modules: Array.from(bucket.modules.values()).map(module => this.buildModule(module.id, module.name, module.operations)),
+    }));
+  }
+
+  private buildModule(id: string, name: string, operations: NormalizedOperation[]): ModuleConfig {
+    const description = operations.length === 1
+      ? operations[0].description || operations[0].summary
+      : `${name} operations (${operations.map(operation => operation.method).join(', ')})`;
+
+    return {
+      id,
+      name,
+      description,
+      endpoints: operations.map(operation => operation.endpoint),
+    };
+  }
+
+  private sanitizeId(value: string): string {
+    return value.toLowerCase()
+      .replace(/[/{}_.]+/g, ' ')
+      .replace(/[^a-z0-9\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-')
+      .replace(/-+/g, '-') || 'root';
+  }
+}
@@ -0,0 +1,37 @@
+import { SidebarService } from './sidebar.service';
+import { EnvironmentService } from './environment.service';
+import { BrandingService } from './branding.service';
+import { Endpoint } from '../interfaces/documentation.interface';
+
+describe('SidebarService', () => {
+  const service = new SidebarService(new EnvironmentService(), new BrandingService());
+  const hostile = '"><script>alert(1)</script>';
+
+  describe('generateSidebarHTML', () => {
+    it('escapes tags, roles, titles and paths', () => {
+      const endpoints: Endpoint[] = [
+        { method: 'GET', path: `/users/${hostile}`, summary: hostile, description: '', tags: [hostile] },
+      ];
+
+      const html = service.generateSidebarHTML(service.getResolvedSidebarConfig(), endpoints, [hostile]);
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('data-tag="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;"');
+      expect(html).toContain('<input type="checkbox" value="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;" checked>');
+      expect(html).toContain('data-path="/users/&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;"');
+      expect(html).toContain('<span class="endpoint-title">&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;</span>');
+    });
+  });
+
+  describe('generateCleanNavigationHTML', () => {
+    it('escapes section and module names', () => {
+      const html = service.generateCleanNavigationHTML([
+        { id: 'users', name: hostile, modules: [{ id: hostile, name: hostile, endpoints: [] }] },
+      ]);
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('<div class="nav-title">&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;</div>');
+      expect(html).toContain('href="#module-users-&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;"');
+    });
+  });
+});
@@ -2,11 +2,15 @@ import { Injectable } from '@nestjs/common';
 import { SidebarConfig, TryPanelConfig, Endpoint, EnvironmentConfig, BrandingConfig } from '../interfaces/documentation.interface';
 import { EnvironmentService } from './environment.service';
 import { BrandingService } from './branding.service';
+import * as hbs from 'hbs';
 import * as fs from 'fs';
 import * as path from 'path';
 
 @Injectable()
 export class SidebarService {
+  /** docs.js, read once per process */
+  private enhancedJS?: string;
+
   constructor(
     private readonly environmentService: EnvironmentService,
     private readonly brandingService: BrandingService,
@@ -120,10 +124,11 @@ export class SidebarService {
   private generateRolesFilter(roles: string[]): string {
     if (roles.length === 0) return '';
 
+    const escape = hbs.Utils.escapeExpression;
     const tagOptions = roles.map(tag => 
       `<label class="tag-filter-item">
-        <input type="checkbox" value="${tag}" checked> 
-        <span class="tag-name">${tag}</span>
+        <input type="checkbox" value="${escape(tag)}" checked> 
+        <span class="tag-name">${escape(tag)}</span>
       </label>`
     ).join('');
 
@@ -142,21 +147,22 @@ export class SidebarService {
    */
   private generateEndpointsList(endpoints: Endpoint[]): string {
     const groupedEndpoints = this.groupEndpointsByTag(endpoints);
+    const escape = hbs.Utils.escapeExpression;
     
     let html = '<div class="endpoints-list">';
     
     Object.entries(groupedEndpoints).forEach(([tag, tagEndpoints]) => {
       html += `
-        <div class="endpoint-group" data-tag="${tag}">
-          <h4 class="group-title">${tag}</h4>
+        <div class="endpoint-group" data-tag="${escape(tag)}">
+          <h4 class="group-title">${escape(tag)}</h4>
           <div class="group-endpoints">
       `;
       
       tagEndpoints.forEach(endpoint => {
         const title = endpoint.summary || `${endpoint.method} ${endpoint.path}`;
         html += `
-          <a href="#endpoint-${this.generateEndpointId(endpoint)}" class="endpoint-link" data-method="${endpoint.method}" data-path="${endpoint.path}">
-            <span class="endpoint-title">${title}</span>
+          <a href="#endpoint-${escape(this.generateEndpointId(endpoint))}" class="endpoint-link" data-method="${escape(endpoint.method)}" data-path="${escape(endpoint.path)}">
+            <span class="endpoint-title">${escape(title)}</span>
           </a>
         `;
       });
@@ -577,6 +583,13 @@ export class SidebarService {
    * Load the enhanced JavaScript from the assets folder
    */
   private loadEnhancedJS(): string {
+    if (this.enhancedJS === undefined) {
+      this.enhancedJS = this.readEnhancedJS();
+    }
+    return this.enhancedJS;
+  }
+
+  private readEnhancedJS(): string {
     try {
       const jsPath = path.join(__dirname, '..', 'assets', 'docs.js');
       return fs.readFileSync(jsPath, 'utf8');
@@ -636,12 +649,13 @@ export class SidebarService {
    */
   generateCleanNavigationHTML(sections: any[], brandingConfig?: BrandingConfig): string {
     const sidebarLogo = this.brandingService.generateSidebarLogoHTML(brandingConfig);
+    const escape = hbs.Utils.escapeExpression;
     
     let sectionsHTML = '';
     sections.forEach(section => {
       sectionsHTML += `
         <div class="nav-section">
-          <div class="nav-title">${section.name}</div>
+          <div class="nav-title">${escape(section.name)}</div>
       `;
       
       section.modules.forEach(module => {
@@ -649,8 +663,8 @@ export class SidebarService {
         const endpointCount = module.endpoints ? module.endpoints.length : 0;
         
         sectionsHTML += `
-          <a href="#module-${section.id}-${module.id}" class="nav-item">
-            <span class="module-name">${moduleTitle}</span>
+          <a href="#module-${escape(section.id)}-${escape(module.id)}" class="nav-item">
+            <span class="module-name">${escape(moduleTitle)}</span>
             <span class="endpoint-count">${endpointCount} endpoint${endpointCount !== 1 ? 's' : ''}</span>
           </a>
         `;
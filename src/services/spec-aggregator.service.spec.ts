@@ -0,0 +1,102 @@
+import { OpenAPIObject } from '@nestjs/swagger';
+import { SpecAggregatorService } from './spec-aggregator.service';
+import { ServiceInfo } from '../interfaces/documentation.interface';
+
+describe('SpecAggregatorService', () => {
+  const service = new SpecAggregatorService();
+
+  type Schemas = NonNullable<OpenAPIObject['components']>['schemas'];
+
+  const serviceDocument = (title: string, paths: OpenAPIObject['paths'], schemas: Schemas): OpenAPIObject => ({
+    openapi: '3.0.3',
+    info: { title, version: '1.0.0' },
+    servers: [{ url: `https://${title.toLowerCase()}.internal` }],
+    paths,
+    components: { schemas },
+  });
+
+  const error = { type: 'object', properties: { message: { type: 'string' } } };
+  const listOperation = (operationId: string, ref: string) => ({
+    get: { operationId, tags: ['Items'], responses: { 200: { description: 'OK', content: { 'application/json': { schema: { $ref: ref } } } } } },
+  });
+
+  beforeEach(() => jest.spyOn(console, 'warn').mockImplementation(() => undefined));
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('merge', () => {
+    const merged = () => service.merge([
+      {
+        name: 'Billing',
+        document: serviceDocument('Billing', { '/items': listOperation('listItems', '#/components/schemas/Item') }, {
+          Error: error,
+          Item: { type: 'object', properties: { amount: { type: 'number' } } },
+        }),
+        options: { tagPrefix: 'Billing: ' },
+      },
+      {
+        name: 'Catalog',
+        document: serviceDocument('Catalog', { '/items': listOperation('listItems', '#/components/schemas/Item') }, {
+          Error: error,
+          Item: { type: 'object', properties: { sku: { type: 'string' } } },
+        }),
+        options: { pathPrefix: 'catalog' },
+      },
+    ], { title: 'Portal' });
+
+    it('shares identical components and namespaces conflicting ones', () => {
+      const document = merged();
+
+      expect(Object.keys(document.components.schemas).sort()).toEqual(['Error', 'Item', 'catalog.Item']);
+      expect(document.paths['/catalog/items'].get.responses[200].content['application/json'].schema.$ref).toBe('#/components/schemas/catalog.Item');
+      expect(document.paths['/items'].get.responses[200].content['application/json'].schema.$ref).toBe('#/components/schemas/Item');
+    });
+
+    it('tags operations with their service, server and prefixed tags', () => {
+      const document = merged();
+      const billing = document.paths['/items'].get;
+      const catalog = document.paths['/catalog/items'].get;
+
+      expect(billing['x-zedoc-service']).toBe('billing');
+      expect(billing.servers).toEqual([{ url: 'https://billing.internal' }]);
+      expect(billing.tags).toEqual(['Billing: Items']);
+      expect(catalog.operationId).toBe('catalog_listItems');
+      expect(document['x-zedoc-services'].map((info: ServiceInfo) => info.id)).toEqual(['billing', 'catalog']);
+    });
+
+    it('namespaces identical components that reference a renamed component', () => {
+      const order = { type: 'object', properties: { item: { $ref: '#/components/schemas/Item' } } };
+      const document = service.merge([
+        {
+          name: 'Billing',
+          document: serviceDocument('Billing', { '/orders': listOperation('listOrders', '#/components/schemas/Order') }, {
+            Item: { type: 'object', properties: { amount: { type: 'number' } } },
+            Order: order,
+          }),
+          options: {},
+        },
+        {
+          name: 'Catalog',
+          document: serviceDocument('Catalog', { '/orders': listOperation('listOrders', '#/components/schemas/Order') }, {
+            Item: { type: 'object', properties: { sku: { type: 'string' } } },
+            Order: order,
+          }),
+          options: { pathPrefix: 'catalog' },
+        },
+      ]);
+
+      expect(Object.keys(document.components.schemas).sort()).toEqual(['Item', 'Order', 'catalog.Item', 'catalog.Order']);
+      expect(document.components.schemas['catalog.Order'].properties.item.$ref).toBe('#/components/schemas/catalog.Item');
+      expect(document.components.schemas.Order.properties.item.$ref).toBe('#/components/schemas/Item');
+      expect(document.paths['/catalog/orders'].get.responses[200].content['application/json'].schema.$ref).toBe('#/components/schemas/catalog.Order');
+    });
+
+    it('exposes conflicting paths under the service name', () => {
+      const document = service.merge([
+        { name: 'Billing', document: serviceDocument('Billing', { '/items': listOperation('a', '#/components/schemas/Error') }, { Error: error }), options: {} },
+        { name: 'Catalog', document: serviceDocument('Catalog', { '/items': listOperation('b', '#/components/schemas/Error') }, { Error: error }), options: {} },
+      ]);
+
+      expect(Object.keys(document.paths)).toEqual(['/items', '/catalog/items']);
+    });
+  });
+});
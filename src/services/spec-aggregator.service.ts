@@ -0,0 +1,181 @@
+import { Injectable } from '@nestjs/common';
+import { ServiceInfo, SwaggerSourceRegistration } from '../interfaces/documentation.interface';
+
+export interface RegisteredSource {
+  name: string;
+  document: any;
+  options: SwaggerSourceRegistration;
+}
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'];
+
+@Injectable()
+export class SpecAggregatorService {
+  /**
+   * Merge several named OpenAPI 3 documents into one portal document.
+   * Each operation is tagged with `x-zedoc-service` and carries its service's base server,
+   * conflicting component names, paths and operationIds are namespaced per service.
+   */
+  merge(sources: RegisteredSource[], info?: { title?: string; version?: string; description?: string }): any {
+    const services: ServiceInfo[] = [];
+    const merged: any = {
+      // Keep 3.1 semantics (type arrays, webhooks...) as soon as one service uses them
+      openapi: sources.some(source => String(source.document?.openapi).startsWith('3.1')) ? '3.1.0' : '3.0.3',
+      info: {
+        title: info?.title || 'API Portal',
+        version: info?.version || '1.0.0',
+        description: info?.description,
+      },
+      paths: {},
+      components: {},
+      tags: [],
+    };
+    const operationIds = new Set<string>();
+
+    sources.forEach(source => {
+      const serviceId = this.sanitizeId(source.name);
+      const doc = source.document;
+      const server = source.options.server || doc.servers?.[0]?.url;
+      const service: ServiceInfo = {
+        id: serviceId,
+        name: source.options.title || source.name,
+        description: doc.info?.description,
+        version: doc.info?.version,
+        server,
+      };
+      services.push(service);
+
+      // Components: share identical definitions, namespace conflicting ones.
+      // Definitions are compared with their refs rewritten, so a component pointing at a renamed one
+      // conflicts too, and is renamed in turn until no new conflict appears.
+      const renames: Record<string, Record<string, string>> = {};
+      Object.keys(doc.components || {}).forEach(category => {
+        merged.components[category] = merged.components[category] || {};
+        renames[category] = {};
+      });
+
+      let rewritten = doc;
+      let renamed = true;
+      while (renamed) {
+        renamed = false;
+        rewritten = this.rewriteComponentRefs(doc, renames);
+        Object.keys(rewritten.components || {}).forEach(category => {
+          Object.keys(rewritten.components[category] || {}).forEach(name => {
+            const existing = merged.components[category][name];
+            if (!renames[category][name] && existing !== undefined && JSON.stringify(existing) !== JSON.stringify(rewritten.components[category][name])) {
+              renames[category][name] = `${serviceId}.${name}`;
+              renamed = true;
+            }
+          });
+        });
+      }
+
+      Object.keys(rewritten.components || {}).forEach(category => {
+        Object.keys(rewritten.components[category] || {}).forEach(name => {
+          const targetName = renames[category]?.[name] || name;
+          merged.components[category][targetName] = rewritten.components[category][name];
+        });
+      });
+
+      // Tags
+      (rewritten.tags || []).forEach((tag: any) => {
+        merged.tags.push({ ...tag, name: this.prefixTag(tag.name, source.options), 'x-zedoc-service': serviceId });
+      });
+
+      // Paths
+      Object.keys(rewritten.paths || {}).forEach(pathKey => {
+        let targetPath = this.joinPath(source.options.pathPrefix, pathKey);
+        if (merged.paths[targetPath]) {
+          const deconflicted = this.joinPath(`/${serviceId}`, targetPath);
+          console.warn(`⚠️  Path ${targetPath} from service "${source.name}" conflicts with another service, exposing it as ${deconflicted}`);
+          targetPath = deconflicted;
+        }
+
+        const pathItem = rewritten.paths[pathKey];
+        const mergedPathItem: any = {};
+        Object.keys(pathItem).forEach(key => {
+          if (!HTTP_METHODS.includes(key)) {
+            mergedPathItem[key] = pathItem[key];
+            return;
+          }
+
+          const operation = { ...pathItem[key] };
+          operation.tags = (operation.tags || ['Default']).map((tag: string) => this.prefixTag(tag, source.options));
+          operation['x-zedoc-service'] = serviceId;
+
+          if (server && !operation.servers && !pathItem.servers) {
+            operation.servers = [{ url: server }];
+          }
+          if (!operation.security && rewritten.security) {
+            operation.security = rewritten.security;
+          }
+          if (operation.operationId) {
+            if (operationIds.has(operation.operationId)) {
+              operation.operationId = `${serviceId}_${operation.operationId}`;
+            }
+            operationIds.add(operation.operationId);
+          }
+
+          mergedPathItem[key] = operation;
+        });
+
+        merged.paths[targetPath] = mergedPathItem;
+      });
+
+      // Webhooks
+      Object.keys(rewritten.webhooks || {}).forEach(webhookName => {
+        merged.webhooks = merged.webhooks || {};
+        const targetName = merged.webhooks[webhookName] ? `${serviceId}.${webhookName}` : webhookName;
+        const pathItem = rewritten.webhooks[webhookName];
+        merged.webhooks[targetName] = pathItem?.$ref ? pathItem : Object.keys(pathItem || {}).reduce((item: any, key) => {
+          item[key] = HTTP_METHODS.includes(key) ? { ...pathItem[key], 'x-zedoc-service': serviceId } : pathItem[key];
+          return item;
+        }, {});
+      });
+    });
+
+    merged['x-zedoc-services'] = services;
+    return merged;
+  }
+
+  private rewriteComponentRefs(node: any, renames: Record<string, Record<string, string>>): any {
+    if (Array.isArray(node)) {
+      return node.map(item => this.rewriteComponentRefs(item, renames));
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    const result: any = {};
+    Object.keys(node).forEach(key => {
+      const value = node[key];
+      if (key === '$ref' && typeof value === 'string') {
+        const match = /^#\/components\/([^/]+)\/([^/]+)(.*)$/.exec(value);
+        const renamed = match && renames[match[1]]?.[match[2]];
+        result[key] = renamed ? `#/components/${match[1]}/${renamed}${match[3]}` : value;
+      } else {
+        result[key] = this.rewriteComponentRefs(value, renames);
+      }
+    });
+    return result;
+  }
+
+  private prefixTag(tag: string, options: SwaggerSourceRegistration): string {
+    return options.tagPrefix ? `${options.tagPrefix}${tag}` : tag;
+  }
+
+  private joinPath(prefix: string | undefined, pathKey: string): string {
+    if (!prefix) {
+      return pathKey;
+    }
+    return `/${prefix.replace(/^\/+|\/+$/g, '')}${pathKey.startsWith('/') ? pathKey : `/${pathKey}`}`;
+  }
+
+  private sanitizeId(str: string): string {
+    return str.toLowerCase()
+      .replace(/[^a-z0-9\s-]/g, '')
+      .replace(/\s+/g, '-')
+      .replace(/-+/g, '-')
+      .trim();
+  }
+}
@@ -0,0 +1,91 @@
+import { OpenAPIObject } from '@nestjs/swagger';
+import { SpecDiffService } from './spec-diff.service';
+import { SchemaService } from './schema.service';
+import { MediaTypeService } from './media-type.service';
+
+describe('SpecDiffService', () => {
+  const service = new SpecDiffService(new SchemaService(), new MediaTypeService());
+
+  type Schemas = NonNullable<NonNullable<OpenAPIObject['components']>['schemas']>;
+
+  const documentWith = (schemas: Schemas, bodySchema: Schemas[string]): OpenAPIObject => ({
+    openapi: '3.1.0',
+    info: { title: 'Catalog', version: '1.0.0' },
+    paths: {
+      '/categories': {
+        post: {
+          requestBody: { required: true, content: { 'application/json': { schema: bodySchema } } },
+          responses: { 201: { description: 'Created' } },
+        },
+      },
+    },
+    components: { schemas },
+  });
+
+  describe('diff', () => {
+    it('compares request bodies with recursive $defs', () => {
+      const schemas = {
+        Category: {
+          type: 'object',
+          properties: { node: { $ref: '#/$defs/Node' } },
+          $defs: { Node: { type: 'object', properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/$defs/Node' } } } } },
+        },
+      };
+      const previous = documentWith(schemas, { $ref: '#/components/schemas/Category' });
+      const current = documentWith(schemas, { $ref: '#/components/schemas/Category' });
+
+      expect(service.diff(previous, current).changes).toEqual([]);
+    });
+
+    it('does not flag a component renamed with the same structure as breaking', () => {
+      const address = { type: 'object', required: ['city'], properties: { city: { type: 'string' }, zip: { type: 'string' } } };
+      const previous = documentWith({ Address: address }, {
+        type: 'object',
+        properties: { shipping: { $ref: '#/components/schemas/Address' }, history: { type: 'array', items: { $ref: '#/components/schemas/Address' } } },
+      });
+      const current = documentWith({ Location: { ...address, description: 'A postal location' } }, {
+        type: 'object',
+        properties: { shipping: { $ref: '#/components/schemas/Location' }, history: { type: 'array', items: { $ref: '#/components/schemas/Location' } } },
+      });
+
+      const changelog = service.diff(previous, current);
+
+      expect(changelog.breaking).toBe(0);
+      expect(changelog.changes.map(change => change.description)).toEqual([
+        'Request field "shipping" type renamed from Address to Location',
+        'Request field "history" type renamed from Address[] to Location[]',
+      ]);
+    });
+
+    it('flags a renamed component with a different structure as breaking', () => {
+      const previous = documentWith({ Address: { type: 'object', properties: { city: { type: 'string' } } } }, {
+        type: 'object',
+        properties: { shipping: { $ref: '#/components/schemas/Address' } },
+      });
+      const current = documentWith({ Location: { type: 'object', properties: { city: { type: 'integer' } } } }, {
+        type: 'object',
+        properties: { shipping: { $ref: '#/components/schemas/Location' } },
+      });
+
+      const changes = service.diff(previous, current).changes;
+
+      expect(changes.find(change => change.name === 'shipping')?.breaking).toBe(true);
+      expect(changes.find(change => change.name === 'shipping.city')?.breaking).toBe(true);
+    });
+
+    it('compares renamed parameter schemas structurally', () => {
+      const withParameter = (schemas: Schemas, ref: string): OpenAPIObject => ({
+        ...documentWith(schemas, { type: 'string' }),
+        paths: { '/categories': { get: { parameters: [{ name: 'sort', in: 'query', schema: { $ref: ref } }], responses: { 200: { description: 'OK' } } } } },
+      });
+      const order = { type: 'string', enum: ['asc', 'desc'] };
+
+      const renamed = service.diff(withParameter({ Order: order }, '#/components/schemas/Order'), withParameter({ SortOrder: order }, '#/components/schemas/SortOrder'));
+      const changed = service.diff(withParameter({ Order: order }, '#/components/schemas/Order'), withParameter({ SortOrder: { type: 'string', enum: ['asc'] } }, '#/components/schemas/SortOrder'));
+
+      expect(renamed.breaking).toBe(0);
+      expect(renamed.nonBreaking).toBe(1);
+      expect(changed.breaking).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import { Injectable } from '@nestjs/common';
+import { SchemaNode, SpecChange, SpecChangelog } from '../interfaces/documentation.interface';
+import { SchemaService } from './schema.service';
+import { MediaTypeService } from './media-type.service';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'];
+// Keywords that document a schema without changing the values it accepts
+const ANNOTATION_KEYWORDS = ['title', 'description', 'example', 'examples', 'default', 'deprecated', 'externalDocs', 'xml'];
+// Keywords whose keys are names (properties, definitions) rather than keywords
+const NAMED_SCHEMA_KEYWORDS = ['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas'];
+
+interface FlatField {
+  type: string;
+  required: boolean;
+  modelRef?: string;
+}
+
+type OperationContext = Pick<SpecChange, 'method' | 'path'>;
+
+interface OperationEntry {
+  context: OperationContext;
+  operation: any;
+  pathItem: any;
+}
+
+@Injectable()
+export class SpecDiffService {
+  constructor(
+    private readonly schemaService: SchemaService,
+    private readonly mediaTypeService: MediaTypeService,
+  ) {}
+
+  /**
+   * Compare two normalized OpenAPI 3.x documents.
+   * Breaking changes are the ones that can make an existing client fail: removals,
+   * new required inputs, inputs becoming required and type changes.
+   */
+  diff(previous: any, current: any): SpecChangelog {
+    const changes: SpecChange[] = [];
+    const previousOperations = this.collectOperations(previous);
+    const currentOperations = this.collectOperations(current);
+
+    previousOperations.forEach((operation, key) => {
+      if (!currentOperations.has(key)) {
+        changes.push({ type: 'removed', scope: 'endpoint', ...operation.context, breaking: true, description: 'Endpoint removed' });
+      }
+    });
+
+    currentOperations.forEach((operation, key) => {
+      const before = previousOperations.get(key);
+      if (!before) {
+        changes.push({ type: 'added', scope: 'endpoint', ...operation.context, breaking: false, description: 'Endpoint added' });
+        return;
+      }
+
+      if (operation.operation.deprecated === true && before.operation.deprecated !== true) {
+        changes.push({ type: 'changed', scope: 'endpoint', ...operation.context, breaking: false, description: 'Endpoint deprecated' });
+      }
+      this.diffParameters(before, previous, operation, current, changes);
+      this.diffRequestBody(before, previous, operation, current, changes);
+      this.diffResponses(before, previous, operation, current, changes);
+    });
+
+    const breaking = changes.filter(change => change.breaking).length;
+    return {
+      from: previous?.info?.version,
+      to: current?.info?.version,
+      breaking,
+      nonBreaking: changes.length - breaking,
+      changes,
+    };
+  }
+
+  private collectOperations(document: any): Map<string, OperationEntry> {
+    const operations = new Map<string, OperationEntry>();
+
+    Object.keys(document?.paths || {}).forEach(path => {
+      const pathItem = document.paths[path] || {};
+      Object.keys(pathItem)
+        .filter(method => HTTP_METHODS.includes(method.toLowerCase()))
+        .forEach(method => {
+          // `/users/{id}` and `/users/{userId}` are the same endpoint
+          const key = `${method.toUpperCase()} ${path.replace(/\{[^}]+\}/g, '{}')}`;
+          operations.set(key, { context: { method: method.toUpperCase(), path }, operation: pathItem[method] || {}, pathItem });
+        });
+    });
+
+    return operations;
+  }
+
+  private diffParameters(beforeEntry: OperationEntry, previous: any, afterEntry: OperationEntry, current: any, changes: SpecChange[]): void {
+    const context = afterEntry.context;
+    const before = this.collectParameters(beforeEntry, previous);
+    const after = this.collectParameters(afterEntry, current);
+
+    before.forEach((param, key) => {
+      if (!after.has(key)) {
+        changes.push({ type: 'removed', scope: 'parameter', ...context, name: param.name, location: param.in, breaking: true, description: `${this.capitalize(param.in)} parameter "${param.name}" removed` });
+      }
+    });
+
+    after.forEach((param, key) => {
+      const old = before.get(key);
+      const required = param.in === 'path' || param.required === true;
+      if (!old) {
+        changes.push({ type: 'added', scope: 'parameter', ...context, name: param.name, location: param.in, breaking: required, description: `${required ? 'Required' : 'Optional'} ${param.in} parameter "${param.name}" added` });
+        return;
+      }
+
+      const oldType = this.schemaService.describeType(old.schema || { type: 'string' });
+      const newType = this.schemaService.describeType(param.schema || { type: 'string' });
+      if (oldType !== newType) {
+        const breaking = !this.sameStructure(old.schema || { type: 'string' }, previous, param.schema || { type: 'string' }, current);
+        changes.push({ type: 'changed', scope: 'parameter', ...context, name: param.name, location: param.in, breaking, description: `${this.capitalize(param.in)} parameter "${param.name}" type ${breaking ? 'changed' : 'renamed'} from ${oldType} to ${newType}` });
+      }
+      const wasRequired = old.in === 'path' || old.required === true;
+      if (wasRequired !== required) {
+        changes.push({ type: 'changed', scope: 'parameter', ...context, name: param.name, location: param.in, breaking: required, description: `${this.capitalize(param.in)} parameter "${param.name}" is now ${required ? 'required' : 'optional'}` });
+      }
+    });
+  }
+
+  /**
+   * Path-level and operation parameters keyed by location and name, references resolved
+   */
+  private collectParameters(entry: OperationEntry, document: any): Map<string, any> {
+    const parameters = new Map<string, any>();
+
+    [...(entry.pathItem.parameters || []), ...(entry.operation.parameters || [])]
+      .map(param => param?.$ref ? this.schemaService.resolveRef(param.$ref, document) : param)
+      .filter(param => param && param.name && param.in)
+      .forEach(param => parameters.set(`${param.in}:${param.name}`, param));
+
+    return parameters;
+  }
+
+  private diffRequestBody(beforeEntry: OperationEntry, previous: any, afterEntry: OperationEntry, current: any, changes: SpecChange[]): void {
+    const context = afterEntry.context;
+    const before = this.resolve(beforeEntry.operation.requestBody, previous);
+    const after = this.resolve(afterEntry.operation.requestBody, current);
+
+    if (!before && after) {
+      changes.push({ type: 'added', scope: 'field', ...context, location: 'request body', breaking: after.required === true, description: `${after.required ? 'Required' : 'Optional'} request body added` });
+      return;
+    }
+    if (before && !after) {
+      changes.push({ type: 'removed', scope: 'field', ...context, location: 'request body', breaking: true, description: 'Request body removed' });
+      return;
+    }
+    if (before && after) {
+      this.diffFields(this.flattenContent(before.content, previous), previous, this.flattenContent(after.content, current), current, 'request body', true, context, changes);
+    }
+  }
+
+  private diffResponses(beforeEntry: OperationEntry, previous: any, afterEntry: OperationEntry, current: any, changes: SpecChange[]): void {
+    const context = afterEntry.context;
+    const before = beforeEntry.operation.responses || {};
+    const after = afterEntry.operation.responses || {};
+
+    Object.keys(before).filter(status => !(status in after)).forEach(status => {
+      changes.push({ type: 'removed', scope: 'status', ...context, name: status, breaking: true, description: `Response ${status} removed` });
+    });
+
+    Object.keys(after).forEach(status => {
+      if (!(status in before)) {
+        changes.push({ type: 'added', scope: 'status', ...context, name: status, breaking: false, description: `Response ${status} added` });
+        return;
+      }
+      const location = `response ${status}`;
+      this.diffFields(
+        this.flattenContent(this.resolve(before[status], previous)?.content, previous),
+        previous,
+        this.flattenContent(this.resolve(after[status], current)?.content, current),
+        current,
+        location,
+        false,
+        context,
+        changes,
+      );
+    });
+  }
+
+  /**
+   * Request fields break clients when they appear as required or become required;
+   * response fields break clients when they disappear. Type changes break both, unless only the model is renamed.
+   */
+  private diffFields(before: Map<string, FlatField>, previous: any, after: Map<string, FlatField>, current: any, location: string, request: boolean, context: OperationContext, changes: SpecChange[]): void {
+    const label = request ? 'Request' : this.capitalize(location);
+
+    before.forEach((_, name) => {
+      if (!after.has(name)) {
+        changes.push({ type: 'removed', scope: 'field', ...context, name, location, breaking: true, description: `${label} field "${name}" removed` });
+      }
+    });
+
+    after.forEach((field, name) => {
+      const old = before.get(name);
+      if (!old) {
+        const breaking = request && field.required;
+        changes.push({ type: 'added', scope: 'field', ...context, name, location, breaking, description: `${label} field "${name}" added${request && field.required ? ' as required' : ''}` });
+        return;
+      }
+      if (old.type !== field.type) {
+        const breaking = !this.isModelRename(old, previous, field, current);
+        changes.push({ type: 'changed', scope: 'field', ...context, name, location, breaking, description: `${label} field "${name}" type ${breaking ? 'changed' : 'renamed'} from ${old.type} to ${field.type}` });
+      }
+      if (request && old.required !== field.required) {
+        changes.push({ type: 'changed', scope: 'field', ...context, name, location, breaking: field.required, description: `${label} field "${name}" is now ${field.required ? 'required' : 'optional'}` });
+      }
+    });
+  }
+
+  /**
+   * Field paths (`address.city`) of the preferred media type's schema
+   */
+  private flattenContent(content: Record<string, any> | undefined, document: any): Map<string, FlatField> {
+    const fields = new Map<string, FlatField>();
+    const mediaType = this.mediaTypeService.preferred(content);
+    const schema = mediaType ? content[mediaType]?.schema : undefined;
+    if (!schema) {
+      return fields;
+    }
+
+    const visit = (nodes: SchemaNode[] = [], prefix: string) => nodes.forEach(node => {
+      const name = `${prefix}${node.name}`;
+      fields.set(name, { type: node.type, required: node.required, modelRef: node.modelRef });
+      if (!node.circular) {
+        visit(node.children, `${name}.`);
+      }
+    });
+    visit(this.schemaService.buildSchemaTree(schema, document).children, '');
+
+    return fields;
+  }
+
+  /**
+   * Whether a field type change only renames its model (`Address[]` to `Location[]`) to one of the same structure
+   */
+  private isModelRename(before: FlatField, previous: any, after: FlatField, current: any): boolean {
+    if (!before.modelRef || !after.modelRef || before.type.replace(before.modelRef, '') !== after.type.replace(after.modelRef, '')) {
+      return false;
+    }
+    return this.sameStructure(
+      { $ref: `#/components/schemas/${this.encode(before.modelRef)}` },
+      previous,
+      { $ref: `#/components/schemas/${this.encode(after.modelRef)}` },
+      current,
+    );
+  }
+
+  private sameStructure(before: any, previous: any, after: any, current: any): boolean {
+    return JSON.stringify(this.structure(before, previous)) === JSON.stringify(this.structure(after, current));
+  }
+
+  /**
+   * Schema with local refs resolved, annotations dropped and keys sorted, so schemas accepting the same values
+   * compare equal whatever their component names. A ref back into the current path becomes `{ $circular: <depth> }`.
+   */
+  private structure(schema: any, document: any, stack: any[] = []): any {
+    if (Array.isArray(schema)) {
+      return schema.map(item => this.structure(item, document, stack));
+    }
+    if (!schema || typeof schema !== 'object') {
+      return schema;
+    }
+
+    if (typeof schema.$ref === 'string') {
+      const resolved = this.schemaService.resolveRef(schema.$ref, document);
+      if (resolved === undefined) {
+        return { $ref: schema.$ref };
+      }
+      const index = stack.indexOf(resolved);
+      return index >= 0 ? { $circular: stack.length - index } : this.structure(resolved, document, [...stack, resolved]);
+    }
+
+    const result: Record<string, any> = {};
+    Object.keys(schema)
+      .filter(key => !ANNOTATION_KEYWORDS.includes(key) && !key.startsWith('x-'))
+      .sort()
+      .forEach(key => {
+        const value = schema[key];
+        if (NAMED_SCHEMA_KEYWORDS.includes(key) && value && typeof value === 'object') {
+          result[key] = Object.fromEntries(Object.keys(value).sort().map(name => [name, this.structure(value[name], document, stack)]));
+        } else if (key === 'required' && Array.isArray(value)) {
+          result[key] = [...value].sort();
+        } else if (key === 'enum' || key === 'const') {
+          result[key] = value;
+        } else {
+          result[key] = this.structure(value, document, stack);
+        }
+      });
+    return result;
+  }
+
+  private encode(name: string): string {
+    return name.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  private resolve(value: any, document: any): any {
+    return value?.$ref ? this.schemaService.resolveRef(value.$ref, document) : value;
+  }
+
+  private capitalize(value: string): string {
+    return value ? value.charAt(0).toUpperCase() + value.slice(1) : value;
+  }
+}
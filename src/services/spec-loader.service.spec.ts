@@ -0,0 +1,52 @@
+import { SpecLoaderService } from './spec-loader.service';
+
+describe('SpecLoaderService', () => {
+  const service = new SpecLoaderService();
+
+  describe('detectFormat', () => {
+    it('parses the OpenAPI media type with a +json suffix as JSON', () => {
+      expect(service.detectFormat('https://api.example.com/openapi', 'application/vnd.oai.openapi+json')).toBe('json');
+      expect(service.detectFormat('https://api.example.com/openapi', 'application/vnd.oai.openapi+json; version=3.1')).toBe('json');
+    });
+
+    it('parses the bare OpenAPI media type as YAML, ignoring parameters', () => {
+      expect(service.detectFormat('https://api.example.com/openapi', 'application/vnd.oai.openapi')).toBe('yaml');
+      expect(service.detectFormat('https://api.example.com/openapi', 'application/vnd.oai.openapi;version=3.0')).toBe('yaml');
+    });
+
+    it('does not treat media types that only start with a YAML type as YAML', () => {
+      expect(service.detectFormat('https://api.example.com/openapi', 'application/yaml-patch', '{"openapi":"3.0.0"}')).toBe('json');
+    });
+
+    it('prefers the file extension over the content type', () => {
+      expect(service.detectFormat('https://api.example.com/openapi.yaml', 'application/json')).toBe('yaml');
+      expect(service.detectFormat('./openapi.json', 'application/yaml')).toBe('json');
+    });
+  });
+
+  describe('loadIfModified', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('times out while the body is still being read', async () => {
+      jest.spyOn(global, 'fetch').mockImplementation(async (_url, init) => {
+        const body = new ReadableStream({
+          start(controller) {
+            init?.signal?.addEventListener('abort', () => controller.error(new DOMException('The operation was aborted', 'AbortError')));
+          },
+        });
+        return new Response(body, { status: 200, headers: { 'content-type': 'application/json' } });
+      });
+
+      await expect(service.loadIfModified('https://api.example.com/openapi.json', { timeout: 20 }))
+        .rejects.toThrow('Request timeout after 20ms');
+    });
+
+    it('clears the timeout when the request fails', async () => {
+      jest.spyOn(global, 'fetch').mockRejectedValue(new TypeError('fetch failed'));
+      const clear = jest.spyOn(global, 'clearTimeout');
+
+      await expect(service.loadIfModified('https://api.example.com/openapi.json')).rejects.toThrow('fetch failed');
+      expect(clear).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { Injectable } from '@nestjs/common';
+import { SwaggerSourceOptions, SpecFormat, SpecValidators } from '../interfaces/documentation.interface';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+
+const YAML_EXTENSIONS = ['.yaml', '.yml'];
+const YAML_CONTENT_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml', 'application/vnd.oai.openapi'];
+
+export interface SpecLoadResult {
+  notModified: boolean;
+  document?: any;
+  validators: SpecValidators;
+}
+
+@Injectable()
+export class SpecLoaderService {
+  /**
+   * Load and parse a Swagger/OpenAPI document from a URL or file path
+   */
+  async load(source: string, options?: SwaggerSourceOptions): Promise<any> {
+    if (this.isUrl(source)) {
+      return this.fetchFromUrl(source, options);
+    }
+    return this.loadFromFile(source, options);
+  }
+
+  /**
+   * Load a document unless it is unchanged since the given validators were captured.
+   * URLs use ETag/If-Modified-Since (HTTP 304), files compare their modification time.
+   */
+  async loadIfModified(source: string, options?: SwaggerSourceOptions, validators?: SpecValidators): Promise<SpecLoadResult> {
+    if (this.isUrl(source)) {
+      return this.fetchIfModified(source, options, validators);
+    }
+    return this.loadFileIfModified(source, options, validators);
+  }
+
+  /**
+   * Check if a string is a URL
+   */
+  isUrl(source: string): boolean {
+    try {
+      const url = new URL(source);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Fetch and parse a document from URL
+   */
+  async fetchFromUrl(url: string, options?: SwaggerSourceOptions): Promise<any> {
+    const result = await this.fetchIfModified(url, options);
+    return result.document;
+  }
+
+  /**
+   * Read and parse a document from file path
+   */
+  async loadFromFile(filePath: string, options?: SwaggerSourceOptions): Promise<any> {
+    const result = await this.loadFileIfModified(filePath, options);
+    return result.document;
+  }
+
+  /**
+   * Resolve a file source against the working directory
+   */
+  resolveFilePath(filePath: string): string {
+    return path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
+  }
+
+  /**
+   * Detect the document format from file extension, content type or content
+   */
+  detectFormat(source: string, contentType?: string, content?: string): SpecFormat {
+    const pathname = this.isUrl(source) ? new URL(source).pathname : source;
+    const ext = path.extname(pathname).toLowerCase();
+
+    if (YAML_EXTENSIONS.includes(ext)) {
+      return 'yaml';
+    }
+    if (ext === '.json') {
+      return 'json';
+    }
+
+    // Parameters such as `; version=3.1` don't change the format, a `+json` suffix does
+    const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+    if (mimeType?.endsWith('+json')) {
+      return 'json';
+    }
+    if (mimeType && (YAML_CONTENT_TYPES.includes(mimeType) || mimeType.endsWith('+yaml'))) {
+      return 'yaml';
+    }
+    if (mimeType && mimeType.includes('json')) {
+      return 'json';
+    }
+
+    // Fall back to sniffing: JSON documents always start with an object or array
+    const firstChar = content?.trimStart().charAt(0);
+    return firstChar === '{' || firstChar === '[' ? 'json' : 'yaml';
+  }
+
+  /**
+   * Parse document content, reporting line and column on syntax errors
+   */
+  parse(content: string, source: string, format: SpecFormat): any {
+    if (format === 'yaml') {
+      try {
+        return YAML.parse(content);
+      } catch (error) {
+        const position = error.linePos?.[0];
+        const location = position ? ` at line ${position.line}, column ${position.col}` : '';
+        const message = String(error.message).split('\n')[0].replace(/ at line \d+, column \d+:?$/, '');
+        throw new Error(`Invalid YAML format in ${source}${location}: ${message}`);
+      }
+    }
+
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      const match = /position (\d+)/.exec(error.message);
+      const location = match ? this.getLineAndColumn(content, parseInt(match[1])) : null;
+      const suffix = location ? ` at line ${location.line}, column ${location.column}` : '';
+      const message = String(error.message).replace(/ in JSON at position \d+.*$/, '');
+      throw new Error(`Invalid JSON format in ${source}${suffix}: ${message}`);
+    }
+  }
+
+  private async fetchIfModified(url: string, options?: SwaggerSourceOptions, validators?: SpecValidators): Promise<SpecLoadResult> {
+    const timeout = options?.timeout || 10000; // 10 seconds default
+    const headers: Record<string, string> = {
+      'Accept': 'application/json, application/yaml;q=0.9, text/yaml;q=0.8, */*;q=0.5',
+      'User-Agent': '@kodesonik/zedoc',
+      ...options?.headers
+    };
+    if (validators?.etag) {
+      headers['If-None-Match'] = validators.etag;
+    }
+    if (validators?.lastModified) {
+      headers['If-Modified-Since'] = validators.lastModified;
+    }
+
+    // Create abort controller for timeout; it also covers reading the body
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(url, {
+        method: 'GET',
+        headers,
+        signal: controller.signal
+      });
+
+      if (response.status === 304) {
+        return { notModified: true, validators: validators || {} };
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const contentType = response.headers.get('content-type') || undefined;
+      const content = await response.text();
+      return {
+        notModified: false,
+        document: this.parse(content, url, options?.format || this.detectFormat(url, contentType, content)),
+        validators: {
+          etag: response.headers.get('etag') || undefined,
+          lastModified: response.headers.get('last-modified') || undefined,
+        },
+      };
+
+    } catch (error) {
+      if (error.name === 'AbortError') {
+        throw new Error(`Request timeout after ${timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async loadFileIfModified(filePath: string, options?: SwaggerSourceOptions, validators?: SpecValidators): Promise<SpecLoadResult> {
+    const resolvedPath = this.resolveFilePath(filePath);
+
+    // Check if file exists
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`File not found: ${resolvedPath}`);
+    }
+
+    const lastModified = fs.statSync(resolvedPath).mtime.toISOString();
+    if (validators?.lastModified === lastModified) {
+      return { notModified: true, validators };
+    }
+
+    const content = fs.readFileSync(resolvedPath, options?.encoding || 'utf8');
+    return {
+      notModified: false,
+      document: this.parse(content, resolvedPath, options?.format || this.detectFormat(resolvedPath, undefined, content)),
+      validators: { lastModified },
+    };
+  }
+
+  /**
+   * Convert a character offset into a 1-based line and column
+   */
+  private getLineAndColumn(content: string, offset: number): { line: number; column: number } {
+    const before = content.slice(0, offset);
+    const lines = before.split('\n');
+    return {
+      line: lines.length,
+      column: lines[lines.length - 1].length + 1,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { SpecValidatorService } from './spec-validator.service';
+
+describe('SpecValidatorService', () => {
+  const service = new SpecValidatorService();
+
+  const document = (overrides: Record<string, unknown> = {}) => ({
+    openapi: '3.0.3',
+    info: { title: 'Users API', version: '1.0.0' },
+    paths: {},
+    ...overrides,
+  });
+
+  describe('validate', () => {
+    it('accepts a minimal document', () => {
+      expect(service.validate(document())).toEqual({ valid: true, errors: 0, warnings: 0, issues: [] });
+    });
+
+    it('reports missing root fields', () => {
+      const report = service.validate({ openapi: '3.0.3', info: { title: 'Users API' } });
+
+      expect(report.valid).toBe(false);
+      expect(report.issues.map(issue => issue.message)).toEqual([
+        'Missing required field "info.version"',
+        'Missing required field "paths"',
+      ]);
+    });
+
+    it('points at undeclared path parameters and duplicate operationIds', () => {
+      const report = service.validate(document({
+        paths: {
+          '/users/{id}': { get: { operationId: 'getUser', responses: { 200: { description: 'OK' } } } },
+          '/users': { get: { operationId: 'getUser', responses: { 200: { description: 'OK' } } } },
+        },
+      }));
+
+      expect(report.issues.map(issue => [issue.pointer, issue.code])).toEqual([
+        ['/paths/~1users~1{id}/get', 'undeclared-path-parameter'],
+        ['/paths/~1users/get/operationId', 'duplicate-operation-id'],
+      ]);
+    });
+
+    it('reports local refs to missing definitions and refs marked unresolved by the bundler', () => {
+      const report = service.validate(document({
+        components: {
+          schemas: {
+            User: { type: 'object', properties: { team: { $ref: '#/components/schemas/Team' } } },
+            Address: { $ref: 'file:///etc/address.yaml', 'x-zedoc-unresolved': 'file references are not allowed from a remote document' },
+          },
+        },
+      }));
+
+      expect(report.errors).toBe(2);
+      expect(report.issues.map(issue => issue.pointer)).toEqual([
+        '/components/schemas/User/properties/team',
+        '/components/schemas/Address',
+      ]);
+    });
+  });
+});
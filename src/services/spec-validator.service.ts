@@ -0,0 +1,269 @@
+import { Injectable } from '@nestjs/common';
+import { ValidationIssue, ValidationReport, ValidationSeverity } from '../interfaces/documentation.interface';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'];
+const PARAMETER_LOCATIONS = ['query', 'header', 'path', 'cookie', 'body', 'formData'];
+const STATUS_CODE_PATTERN = /^([1-5][0-9]{2}|[1-5]XX)$/;
+const COMPONENT_NAME_PATTERN = /^[a-zA-Z0-9.\-_]+$/;
+
+type IssueReporter = (pointer: string, severity: ValidationSeverity, code: string, message: string) => void;
+
+@Injectable()
+export class SpecValidatorService {
+  /**
+   * Validate a Swagger 2.0 or OpenAPI 3.x document.
+   * Issues carry the JSON pointer of the offending node, so they can be traced back to the spec.
+   */
+  validate(document: any): ValidationReport {
+    const issues: ValidationIssue[] = [];
+    const report: IssueReporter = (pointer, severity, code, message) => {
+      issues.push({ pointer, severity, code, message });
+    };
+
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      report('', 'error', 'invalid-document', 'Document must be an object');
+      return this.buildReport(issues);
+    }
+
+    this.validateRoot(document, report);
+    this.validatePaths(document, report);
+    this.validateSecurity(document, document.security, '/security', report);
+    this.validateComponentNames(document, report);
+    this.validateReferences(document, document, '', report);
+
+    return this.buildReport(issues);
+  }
+
+  private validateRoot(document: any, report: IssueReporter): void {
+    const version = document.openapi || document.swagger;
+    if (typeof version !== 'string') {
+      report('', 'error', 'missing-field', 'Missing required field "openapi" (or "swagger" for 2.0 documents)');
+    } else if (!/^(2\.0|3\.[01]\.\d+)$/.test(version)) {
+      report(document.openapi ? '/openapi' : '/swagger', 'error', 'unsupported-version', `Unsupported specification version "${version}"`);
+    }
+
+    if (!document.info || typeof document.info !== 'object') {
+      report('', 'error', 'missing-field', 'Missing required field "info"');
+    } else {
+      ['title', 'version'].forEach(field => {
+        if (typeof document.info[field] !== 'string' || document.info[field] === '') {
+          report('/info', 'error', 'missing-field', `Missing required field "info.${field}"`);
+        }
+      });
+    }
+
+    // OpenAPI 3.1 allows documents made only of webhooks or components
+    const pathsOptional = typeof document.openapi === 'string' && document.openapi.startsWith('3.1') && (document.webhooks || document.components);
+    if (!document.paths && !pathsOptional) {
+      report('', 'error', 'missing-field', 'Missing required field "paths"');
+    }
+  }
+
+  private validatePaths(document: any, report: IssueReporter): void {
+    const operationIds = new Map<string, string>();
+
+    Object.keys(document.paths || {}).forEach(pathKey => {
+      const pathItem = document.paths[pathKey];
+      const pathPointer = `/paths/${this.escape(pathKey)}`;
+
+      if (!pathKey.startsWith('/')) {
+        report(pathPointer, 'error', 'invalid-path', `Path "${pathKey}" must start with "/"`);
+      }
+      if (!pathItem || typeof pathItem !== 'object') {
+        return;
+      }
+
+      const templateParams = (pathKey.match(/\{[^}]+\}/g) || []).map(param => param.slice(1, -1));
+      const pathLevelParams = this.validateParameters(document, pathItem.parameters, `${pathPointer}/parameters`, report);
+
+      Object.keys(pathItem).filter(key => HTTP_METHODS.includes(key)).forEach(method => {
+        const operation = pathItem[method];
+        const operationPointer = `${pathPointer}/${method}`;
+        if (!operation || typeof operation !== 'object') {
+          return;
+        }
+
+        if (operation.operationId !== undefined) {
+          const previous = operationIds.get(operation.operationId);
+          if (previous) {
+            report(`${operationPointer}/operationId`, 'error', 'duplicate-operation-id', `Duplicate operationId "${operation.operationId}" (already used at ${previous})`);
+          } else {
+            operationIds.set(operation.operationId, operationPointer);
+          }
+        }
+
+        const operationParams = this.validateParameters(document, operation.parameters, `${operationPointer}/parameters`, report);
+        const declared = [...pathLevelParams, ...operationParams].filter(param => param.in === 'path').map(param => param.name);
+
+        templateParams.forEach(name => {
+          if (!declared.includes(name)) {
+            report(operationPointer, 'error', 'undeclared-path-parameter', `Path parameter "${name}" is not declared for ${method.toUpperCase()} ${pathKey}`);
+          }
+        });
+        declared.forEach(name => {
+          if (!templateParams.includes(name)) {
+            report(operationPointer, 'warning', 'unused-path-parameter', `Path parameter "${name}" is declared but not part of the path ${pathKey}`);
+          }
+        });
+
+        this.validateResponses(operation.responses, `${operationPointer}/responses`, report);
+        this.validateSecurity(document, operation.security, `${operationPointer}/security`, report);
+      });
+    });
+  }
+
+  /**
+   * Validate a parameter list and return the parameters it declares (local $refs resolved)
+   */
+  private validateParameters(document: any, parameters: any, pointer: string, report: IssueReporter): Array<{ name: string; in: string }> {
+    if (parameters === undefined) {
+      return [];
+    }
+    if (!Array.isArray(parameters)) {
+      report(pointer, 'error', 'invalid-type', 'Parameters must be an array');
+      return [];
+    }
+
+    const declared: Array<{ name: string; in: string }> = [];
+    parameters.forEach((parameter, index) => {
+      const paramPointer = `${pointer}/${index}`;
+      const resolved = parameter?.$ref ? this.resolveLocalRef(document, parameter.$ref) : parameter;
+      // Broken refs are reported by validateReferences
+      if (!resolved || typeof resolved !== 'object') {
+        return;
+      }
+
+      if (typeof resolved.name !== 'string' || resolved.name === '') {
+        report(paramPointer, 'error', 'missing-field', 'Missing required field "name" on parameter');
+      }
+      if (!resolved.in) {
+        report(paramPointer, 'error', 'missing-field', 'Missing required field "in" on parameter');
+      } else if (!PARAMETER_LOCATIONS.includes(resolved.in)) {
+        report(`${paramPointer}/in`, 'error', 'invalid-value', `Invalid parameter location "${resolved.in}"`);
+      }
+      if (resolved.in === 'path' && resolved.required !== true) {
+        report(paramPointer, 'error', 'invalid-value', `Path parameter "${resolved.name}" must be marked as required`);
+      }
+
+      if (resolved.name && resolved.in) {
+        declared.push({ name: resolved.name, in: resolved.in });
+      }
+    });
+    return declared;
+  }
+
+  private validateResponses(responses: any, pointer: string, report: IssueReporter): void {
+    if (!responses || typeof responses !== 'object') {
+      report(pointer.replace(/\/responses$/, ''), 'error', 'missing-field', 'Missing required field "responses" on operation');
+      return;
+    }
+
+    const codes = Object.keys(responses).filter(code => !code.startsWith('x-'));
+    if (codes.length === 0) {
+      report(pointer, 'warning', 'empty-responses', 'Operation declares no responses');
+    }
+
+    codes.forEach(code => {
+      const responsePointer = `${pointer}/${this.escape(code)}`;
+      if (code !== 'default' && !STATUS_CODE_PATTERN.test(code)) {
+        report(responsePointer, 'error', 'invalid-status-code', `Invalid status code "${code}"`);
+      }
+      const response = responses[code];
+      if (response && typeof response === 'object' && !response.$ref && typeof response.description !== 'string') {
+        report(responsePointer, 'error', 'missing-field', 'Missing required field "description" on response');
+      }
+    });
+  }
+
+  /**
+   * Every name in a security requirement must match a declared security scheme
+   */
+  private validateSecurity(document: any, security: any, pointer: string, report: IssueReporter): void {
+    if (security === undefined) {
+      return;
+    }
+    if (!Array.isArray(security)) {
+      report(pointer, 'error', 'invalid-type', 'Security must be an array of requirements');
+      return;
+    }
+
+    const declared = document.components?.securitySchemes || document.securityDefinitions || {};
+    security.forEach((requirement, index) => {
+      Object.keys(requirement || {}).forEach(name => {
+        if (!declared[name]) {
+          report(`${pointer}/${index}/${this.escape(name)}`, 'error', 'undeclared-security-scheme', `Security scheme "${name}" is not declared`);
+        }
+      });
+    });
+  }
+
+  private validateComponentNames(document: any, report: IssueReporter): void {
+    Object.keys(document.components || {}).forEach(category => {
+      if (category.startsWith('x-')) return;
+      Object.keys(document.components[category] || {}).forEach(name => {
+        if (!COMPONENT_NAME_PATTERN.test(name)) {
+          report(`/components/${category}/${this.escape(name)}`, 'warning', 'invalid-component-name', `Component name "${name}" should only contain letters, digits, ".", "-" and "_"`);
+        }
+      });
+    });
+  }
+
+  /**
+   * Check that every local $ref points to an existing node, and report external refs that could not be bundled
+   */
+  private validateReferences(document: any, node: any, pointer: string, report: IssueReporter): void {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => this.validateReferences(document, item, `${pointer}/${index}`, report));
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+
+    if (typeof node.$ref === 'string') {
+      if (node['x-zedoc-unresolved']) {
+        report(pointer, 'error', 'unresolved-ref', `Reference "${node.$ref}" could not be resolved: ${node['x-zedoc-unresolved']}`);
+      } else if (node.$ref.startsWith('#') && this.resolveLocalRef(document, node.$ref) === undefined) {
+        report(pointer, 'error', 'unresolved-ref', `Reference "${node.$ref}" does not point to an existing definition`);
+      }
+    }
+
+    Object.keys(node).forEach(key => {
+      if (key !== '$ref') {
+        this.validateReferences(document, node[key], `${pointer}/${this.escape(key)}`, report);
+      }
+    });
+  }
+
+  private resolveLocalRef(document: any, ref: string): any {
+    if (!ref.startsWith('#')) {
+      return null;
+    }
+
+    const segments = ref.replace(/^#\/?/, '').split('/').filter(segment => segment !== '')
+      .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+    let current = document;
+    for (const segment of segments) {
+      if (current === null || typeof current !== 'object' || !(segment in current)) {
+        return undefined;
+      }
+      current = current[segment];
+    }
+    return current;
+  }
+
+  private escape(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  private buildReport(issues: ValidationIssue[]): ValidationReport {
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    return {
+      valid: errors === 0,
+      errors,
+      warnings: issues.filter(issue => issue.severity === 'warning').length,
+      issues,
+    };
+  }
+}
@@ -0,0 +1,553 @@
+import { Test } from '@nestjs/testing';
+import { SwaggerIntegrationService } from './swagger-integration.service';
+import { SpecLoaderService } from './spec-loader.service';
+import { RefResolverService } from './ref-resolver.service';
+import { SpecAggregatorService } from './spec-aggregator.service';
+import { SpecValidatorService } from './spec-validator.service';
+import { MediaTypeService } from './media-type.service';
+import { ExampleGeneratorService } from './example-generator.service';
+import { SchemaService } from './schema.service';
+import { SectionGroupingService } from './section-grouping.service';
+import { SpecDiffService } from './spec-diff.service';
+import { DocumentFilterService } from './document-filter.service';
+import { SchemaNode, SectionConfig } from '../interfaces/documentation.interface';
+
+describe('SwaggerIntegrationService', () => {
+  let service: SwaggerIntegrationService;
+  let specLoaderService: SpecLoaderService;
+  let specValidatorService: SpecValidatorService;
+
+  const swagger2Document = {
+    swagger: '2.0',
+    info: { title: 'Users', version: '1.0.0' },
+    paths: {
+      '/users': {
+        post: {
+          parameters: [{ in: 'body', name: 'body', schema: { $ref: '#/definitions/User' } }],
+          responses: { 201: { description: 'Created' } },
+        },
+      },
+    },
+    definitions: { User: { type: 'object', properties: { name: { type: 'string' } } } },
+  };
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        SwaggerIntegrationService,
+        SpecLoaderService,
+        RefResolverService,
+        SpecAggregatorService,
+        SpecValidatorService,
+        MediaTypeService,
+        ExampleGeneratorService,
+        SchemaService,
+        SectionGroupingService,
+        SpecDiffService,
+        DocumentFilterService,
+      ],
+    }).compile();
+
+    service = moduleRef.get(SwaggerIntegrationService);
+    specLoaderService = moduleRef.get(SpecLoaderService);
+    specValidatorService = moduleRef.get(SpecValidatorService);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const loadDocument = (document: Record<string, unknown>) => {
+    jest.spyOn(specLoaderService, 'loadIfModified').mockResolvedValue({ notModified: false, document, validators: {} });
+  };
+
+  describe('setSwaggerJson', () => {
+    it('rejects documents that are not OpenAPI documents even when failOn is set', async () => {
+      loadDocument({ info: { title: 'Not a spec' } });
+
+      await expect(service.setSwaggerJson('./openapi.json', { failOn: 'warning' })).rejects.toThrow('Invalid Swagger/OpenAPI document format');
+    });
+
+    it('validates the normalized document when failOn is set', async () => {
+      loadDocument(swagger2Document);
+      const validate = jest.spyOn(specValidatorService, 'validate');
+
+      await service.setSwaggerJson('./openapi.json', { failOn: 'error' });
+
+      const validated = validate.mock.calls[0][0];
+      expect(validated.openapi).toBe('3.0.3');
+      expect(validated.components.schemas.User).toBeDefined();
+      expect(await service.getSwaggerDocument()).toBe(validated);
+    });
+
+    it('fails on warnings with failOn: warning', async () => {
+      loadDocument({ ...swagger2Document, paths: { '/users': { get: { responses: {} } } } });
+
+      await expect(service.setSwaggerJson('./openapi.json', { failOn: 'warning' }))
+        .rejects.toThrow('[warning] /paths/~1users/get/responses: Operation declares no responses');
+    });
+
+    it('only logs warnings with failOn: error', async () => {
+      loadDocument({ ...swagger2Document, paths: { '/users': { get: { responses: {} } } } });
+
+      await service.setSwaggerJson('./openapi.json', { failOn: 'error' });
+
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Operation declares no responses'));
+    });
+
+    it('reports each unresolved reference once', async () => {
+      loadDocument({
+        openapi: '3.0.3',
+        info: { title: 'Users', version: '1.0.0' },
+        paths: {},
+        components: { schemas: { User: { $ref: 'https://elsewhere.example.com/user.json' } } },
+      });
+
+      await expect(service.setSwaggerJson('https://users.example.com/openapi.json', { failOn: 'error' })).rejects.toThrow(/\(1 error\(s\)/);
+    });
+  });
+
+  describe('refresh', () => {
+    const usersDocument = (version: string) => ({
+      openapi: '3.0.3',
+      info: { title: 'Users', version },
+      paths: { '/users': { get: { responses: { 200: { description: 'OK' } } } } },
+    });
+
+    beforeEach(() => jest.useFakeTimers());
+
+    afterEach(() => {
+      service.stopRefresh();
+      jest.useRealTimers();
+    });
+
+    it('keeps the current document when the source is not modified', async () => {
+      const load = jest.spyOn(specLoaderService, 'loadIfModified')
+        .mockResolvedValueOnce({ notModified: false, document: usersDocument('1.0.0'), validators: { etag: '"v1"' } })
+        .mockResolvedValueOnce({ notModified: true, validators: { etag: '"v1"' } });
+
+      await service.setSwaggerJson('https://users.example.com/openapi.json', { refresh: { interval: 1000 } });
+      const version = service.getDocumentVersion();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(load).toHaveBeenLastCalledWith('https://users.example.com/openapi.json', expect.anything(), { etag: '"v1"' });
+      expect(service.getDocumentVersion()).toBe(version);
+      expect(service.getSwaggerInfo()?.version).toBe('1.0.0');
+    });
+
+    it('swaps in a changed document', async () => {
+      jest.spyOn(specLoaderService, 'loadIfModified')
+        .mockResolvedValueOnce({ notModified: false, document: usersDocument('1.0.0'), validators: { etag: '"v1"' } })
+        .mockResolvedValueOnce({ notModified: false, document: usersDocument('1.1.0'), validators: { etag: '"v2"' } });
+
+      await service.setSwaggerJson('https://users.example.com/openapi.json', { refresh: { interval: 1000 } });
+      const version = service.getDocumentVersion();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(service.getDocumentVersion()).toBe(version + 1);
+      expect(service.getSwaggerInfo()?.version).toBe('1.1.0');
+    });
+
+    it('keeps the last good document when a refresh fails', async () => {
+      const load = jest.spyOn(specLoaderService, 'loadIfModified')
+        .mockResolvedValueOnce({ notModified: false, document: usersDocument('1.0.0'), validators: { etag: '"v1"' } })
+        .mockRejectedValueOnce(new Error('HTTP 503: Service Unavailable'))
+        .mockResolvedValueOnce({ notModified: true, validators: { etag: '"v1"' } });
+
+      await service.setSwaggerJson('https://users.example.com/openapi.json', { refresh: { interval: 1000 } });
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(service.getSwaggerInfo()?.version).toBe('1.0.0');
+
+      // The next poll still sends the validators of the last good document
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(load).toHaveBeenLastCalledWith('https://users.example.com/openapi.json', expect.anything(), { etag: '"v1"' });
+    });
+  });
+
+  describe('normalizeSwaggerDocument', () => {
+    it('converts Swagger 2.0 bodies, definitions and servers to OpenAPI 3', () => {
+      const normalized = service.normalizeSwaggerDocument({
+        ...swagger2Document,
+        host: 'api.example.com',
+        basePath: '/v1',
+        schemes: ['https'],
+        consumes: ['application/json', 'application/xml'],
+      });
+
+      expect(normalized.openapi).toBe('3.0.3');
+      expect(normalized.servers).toEqual([{ url: 'https://api.example.com/v1' }]);
+      expect(normalized.components.schemas.User).toEqual(swagger2Document.definitions.User);
+      expect(Object.keys(normalized.paths['/users'].post.requestBody.content)).toEqual(['application/json', 'application/xml']);
+      expect(normalized.paths['/users'].post.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/User' });
+    });
+
+    it('drops operation-level schemes', () => {
+      const normalized = service.normalizeSwaggerDocument({
+        ...swagger2Document,
+        paths: { '/health': { get: { schemes: ['http'], responses: { 200: { description: 'OK' } } } } },
+      });
+
+      expect(normalized.paths['/health'].get).toEqual({ responses: { 200: { description: 'OK' } } });
+    });
+
+    it('returns OpenAPI 3 documents unchanged', () => {
+      const document = { openapi: '3.0.3', info: { title: 'Users', version: '1.0.0' }, paths: {} };
+
+      expect(service.normalizeSwaggerDocument(document)).toBe(document);
+    });
+  });
+
+  describe('convertSwaggerToSections', () => {
+    it('stops generated examples at circular references', () => {
+      const sections = service.convertSwaggerToSections({
+        openapi: '3.0.3',
+        info: { title: 'Categories', version: '1.0.0' },
+        paths: {
+          '/categories': {
+            post: {
+              tags: ['Categories'],
+              requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Category' } } } },
+              responses: { 201: { description: 'Created' } },
+            },
+          },
+        },
+        components: {
+          schemas: {
+            Category: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', example: 'Books' },
+                parent: { $ref: '#/components/schemas/Category' },
+                children: { type: 'array', items: { $ref: '#/components/schemas/Category' } },
+              },
+            },
+          },
+        },
+      });
+
+      const body = sections[0].modules[0].endpoints[0].requestBody;
+      expect(body.name).toBe('Books');
+      // The cycle stops with a minimal valid value: no required properties, so an empty object
+      expect(body.parent).toEqual({});
+      expect(body.children.every((child: unknown) => JSON.stringify(child) === '{}')).toBe(true);
+    });
+
+    it('keeps required objects and arrays as placeholders when an example is cut', () => {
+      const sections = service.convertSwaggerToSections({
+        openapi: '3.0.3',
+        info: { title: 'Folders', version: '1.0.0' },
+        paths: {
+          '/folders': {
+            post: {
+              tags: ['Folders'],
+              requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Folder' } } } },
+              responses: { 201: { description: 'Created' } },
+            },
+          },
+        },
+        components: {
+          schemas: {
+            Folder: {
+              type: 'object',
+              required: ['name', 'owner', 'children'],
+              properties: {
+                name: { type: 'string', example: 'Docs' },
+                owner: { type: 'object', properties: { id: { type: 'string' } } },
+                children: { type: 'array', items: { $ref: '#/components/schemas/Folder' } },
+                parent: { $ref: '#/components/schemas/Folder' },
+              },
+            },
+          },
+        },
+      });
+
+      const body = sections[0].modules[0].endpoints[0].requestBody;
+      expect(body.parent).toEqual({ name: 'Docs', owner: {}, children: [] });
+    });
+  });
+
+  describe('property trees', () => {
+    // `name: type`, with `*` for required fields, `↺` for circular ones and children nested below
+    const outline = (node: SchemaNode | undefined): unknown => {
+      if (!node) return undefined;
+      const label = `${node.name}${node.required ? '*' : ''}: ${node.type}${node.circular ? ' ↺' : ''}`;
+      return node.children ? { [label]: node.children.map(outline) } : label;
+    };
+
+    const schemas = {
+      Address: { type: 'object', required: ['city'], properties: { city: { type: 'string' }, zip: { type: 'string' } } },
+      Audited: { type: 'object', properties: { createdAt: { type: 'string', format: 'date-time' } } },
+      User: {
+        allOf: [
+          { $ref: '#/components/schemas/Audited' },
+          {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string' },
+              address: { $ref: '#/components/schemas/Address' },
+              tags: { type: 'array', items: { type: 'string' } },
+              contact: { oneOf: [{ type: 'object', properties: { email: { type: 'string' } } }, { type: 'object', properties: { phone: { type: 'string' } } }] },
+            },
+          },
+        ],
+      },
+      Node: { type: 'array', items: { type: 'object', properties: { children: { $ref: '#/components/schemas/Node' } } } },
+    };
+
+    const endpointFor = (schema: Record<string, unknown>) => service.convertSwaggerToSections({
+      openapi: '3.0.3',
+      info: { title: 'Users', version: '1.0.0' },
+      paths: {
+        '/users': {
+          post: {
+            tags: ['Users'],
+            requestBody: { content: { 'application/json': { schema } } },
+            responses: { 200: { description: 'OK', content: { 'application/json': { schema } } } },
+          },
+        },
+      },
+      components: { schemas },
+    })[0].modules[0].endpoints[0];
+
+    it('nests objects, flattens allOf and lists one child per oneOf option', () => {
+      const endpoint = endpointFor({ $ref: '#/components/schemas/User' });
+
+      expect(endpoint.requestSchema?.children?.map(outline)).toEqual([
+        'createdAt: string (date-time)',
+        'name*: string',
+        { 'address: Address': ['city*: string', 'zip: string'] },
+        'tags: string[]',
+        { 'contact: object | object': [{ 'object: object': ['email: string'] }, { 'object: object': ['phone: string'] }] },
+      ]);
+      expect(endpoint.requestSchema?.children?.[4].composition).toBe('oneOf');
+    });
+
+    it('exposes the properties of array items', () => {
+      const endpoint = endpointFor({ type: 'array', items: { $ref: '#/components/schemas/Address' } });
+
+      expect(outline(endpoint.responseSchema)).toEqual({ ': Address[]': ['city*: string', 'zip: string'] });
+    });
+
+    it('stops at recursive references, including through array components', () => {
+      const endpoint = endpointFor({ $ref: '#/components/schemas/Node' });
+
+      expect(outline(endpoint.responseSchema)).toEqual({ ': Node': ['children: Node ↺'] });
+    });
+  });
+
+  describe('tag order and groups', () => {
+    const operation = (tag: string) => ({ get: { tags: [tag], responses: { 200: { description: 'OK' } } } });
+    const document = {
+      openapi: '3.0.3',
+      info: { title: 'Shop', version: '1.0.0' },
+      paths: {
+        '/reports': operation('Reports'),
+        '/orders': operation('Orders'),
+        '/health': operation('Health'),
+        '/users': operation('Users'),
+        '/invoices': operation('Invoices'),
+      },
+    };
+
+    it('orders sections as declared in tags, with undeclared tags last', () => {
+      const sections = service.convertSwaggerToSections({
+        ...document,
+        tags: [{ name: 'Users', description: 'Accounts and profiles' }, { name: 'Orders' }, { name: 'Invoices' }, { name: 'Reports' }],
+      });
+
+      expect(sections.map(section => section.name)).toEqual(['Users', 'Orders', 'Invoices', 'Reports', 'Health']);
+      expect(sections[0].description).toBe('Accounts and profiles');
+    });
+
+    it('puts grouped sections first in group order and leaves ungrouped ones after them', () => {
+      const sections = service.convertSwaggerToSections({
+        ...document,
+        tags: [{ name: 'Health' }, { name: 'Users' }, { name: 'Reports' }],
+        'x-tagGroups': [
+          { name: 'Sales', tags: ['Orders', 'Invoices'] },
+          { name: 'Admin', tags: ['Users'] },
+        ],
+      });
+
+      expect(sections.map(section => [section.name, section.group])).toEqual([
+        ['Orders', 'Sales'],
+        ['Invoices', 'Sales'],
+        ['Users', 'Admin'],
+        ['Health', undefined],
+        ['Reports', undefined],
+      ]);
+    });
+  });
+
+  describe('path-level parameters', () => {
+    const endpoints = () => service.convertSwaggerToSections({
+      openapi: '3.0.3',
+      info: { title: 'Users', version: '1.0.0' },
+      paths: {
+        '/users/{id}': {
+          parameters: [
+            { name: 'id', in: 'path', required: true, description: 'User id', schema: { type: 'string' } },
+            { $ref: '#/components/parameters/Locale' },
+          ],
+          get: { tags: ['Users'], responses: { 200: { description: 'OK' } } },
+          put: {
+            tags: ['Users'],
+            parameters: [{ name: 'id', in: 'path', required: true, description: 'Numeric user id', schema: { type: 'integer' } }],
+            responses: { 200: { description: 'OK' } },
+          },
+          delete: {
+            tags: ['Users'],
+            parameters: [{ name: 'id', in: 'query', schema: { type: 'string' } }],
+            responses: { 204: { description: 'Deleted' } },
+          },
+        },
+      },
+      components: { parameters: { Locale: { name: 'locale', in: 'header', schema: { type: 'string', enum: ['en', 'fr'] } } } },
+    })[0].modules[0].endpoints;
+
+    const parametersOf = (method: string) => endpoints()
+      .find(endpoint => endpoint.method === method)?.parameters
+      ?.map(param => [param.in, param.name, param.type, param.description]);
+
+    it('inherits path-level parameters, resolving references', () => {
+      expect(parametersOf('GET')).toEqual([
+        ['path', 'id', 'string', 'User id'],
+        ['header', 'locale', 'string', ''],
+      ]);
+    });
+
+    it('lets an operation parameter with the same name and location override the path-level one', () => {
+      expect(parametersOf('PUT')).toEqual([
+        ['header', 'locale', 'string', ''],
+        ['path', 'id', 'integer', 'Numeric user id'],
+      ]);
+    });
+
+    it('keeps a path-level parameter with the same name in another location', () => {
+      expect(parametersOf('DELETE')?.map(([location, name]) => `${location}:${name}`)).toEqual(['path:id', 'header:locale', 'query:id']);
+    });
+  });
+
+  describe('security requirements', () => {
+    const securedDocument = (security: Array<Record<string, string[]>>) => ({
+      openapi: '3.0.3',
+      info: { title: 'Users', version: '1.0.0' },
+      paths: { '/users': { get: { tags: ['Users'], security, responses: { 200: { description: 'OK' } } } } },
+      components: {
+        securitySchemes: {
+          bearer: { type: 'http', scheme: 'Bearer', bearerFormat: 'JWT' },
+          oauth: { type: 'oauth2', flows: { clientCredentials: { tokenUrl: '/token', scopes: { 'users:read': 'Read users' } } } },
+        },
+      },
+    });
+    const endpointOf = (security: Array<Record<string, string[]>>) => service.convertSwaggerToSections(securedDocument(security))[0].modules[0].endpoints[0];
+
+    it('resolves the schemes of each requirement', () => {
+      const endpoint = endpointOf([{ bearer: [] }, { oauth: ['users:read'] }]);
+
+      expect(endpoint.requiresAuth).toBe(true);
+      expect(endpoint.security?.map(requirement => requirement.schemes.map(scheme => [scheme.name, scheme.type, scheme.scopes]))).toEqual([
+        [['bearer', 'http', []]],
+        [['oauth', 'oauth2', ['users:read']]],
+      ]);
+      expect(endpoint.security?.[0].schemes[0].scheme).toBe('bearer');
+    });
+
+    it('lists an empty requirement last and marks authentication as optional', () => {
+      const endpoint = endpointOf([{}, { bearer: [] }]);
+
+      expect(endpoint.requiresAuth).toBe(false);
+      expect(endpoint.security?.map(requirement => requirement.schemes.length)).toEqual([1, 0]);
+    });
+
+    it('keeps requirements made only of undeclared schemes as required', () => {
+      const endpoint = endpointOf([{ apiKey: [] }]);
+
+      expect(endpoint.requiresAuth).toBe(true);
+      expect(endpoint.security).toEqual([{ schemes: [{ name: 'apiKey', undeclared: true, scopes: [] }] }]);
+    });
+  });
+
+  describe('getVersionSnapshot', () => {
+    const versionDocument = {
+      openapi: '3.0.3',
+      info: { title: 'Users', version: '2.0.0' },
+      paths: {
+        '/users': { get: { tags: ['Accounts'], summary: 'List users', responses: { 200: { description: 'OK' } } } },
+      },
+    };
+
+    it('rejects version names shadowed by the docs routes', async () => {
+      await expect(service.registerVersion('changelog', versionDocument)).rejects.toThrow(/reserved docs route/);
+      await expect(service.registerVersion('JSON', versionDocument)).rejects.toThrow(/reserved docs route/);
+      expect(service.getVersionNames()).toEqual([]);
+    });
+
+    it('matches endpoints across versions without their declared path prefix', async () => {
+      const prefixed = (prefix: string, extra: Record<string, unknown> = {}) => ({
+        ...versionDocument,
+        paths: {
+          [`${prefix}/users/{id}`]: { get: { tags: ['Accounts'], responses: { 200: { description: 'OK' } } } },
+          ...extra,
+        },
+      });
+      await service.registerVersion('v1', prefixed('/v1'), { pathPrefix: '/v1' });
+      await service.registerVersion('v2', prefixed('/v2', { '/v2/teams': { get: { tags: ['Accounts'], responses: { 200: { description: 'OK' } } } } }), { pathPrefix: 'v2/' });
+
+      const endpoints = (await service.getVersionSnapshot('v2')).sections[0].modules.flatMap(module => module.endpoints);
+
+      expect(endpoints.map(endpoint => [endpoint.path, endpoint.versionKey, endpoint.missingInVersions])).toEqual([
+        ['/v2/users/{id}', 'GET /users/{}', undefined],
+        ['/v2/teams', 'GET /teams', ['v1']],
+      ]);
+    });
+
+    it('keeps version-like path segments without a declared prefix', async () => {
+      await service.registerVersion('v1', { ...versionDocument, paths: { '/users': versionDocument.paths['/users'] } });
+      await service.registerVersion('v2', { ...versionDocument, paths: { '/v2/users': versionDocument.paths['/users'] } });
+
+      const endpoint = (await service.getVersionSnapshot('v2')).sections[0].modules[0].endpoints[0];
+
+      expect(endpoint.versionKey).toBe('GET /v2/users');
+      expect(endpoint.missingInVersions).toEqual(['v1']);
+    });
+
+    it('groups a version with its own grouping strategy', async () => {
+      await service.registerVersion('v1', versionDocument);
+      await service.registerVersion('v2', versionDocument, { grouping: 'flat' });
+
+      const v1 = await service.getVersionSnapshot('v1');
+      const v2 = await service.getVersionSnapshot('v2');
+
+      expect(v1.sections.map(section => section.name)).toEqual(['Accounts']);
+      expect(v2.sections).toHaveLength(1);
+      expect(v2.sections[0].name).not.toBe('Accounts');
+    });
+
+    it('uses the sections registered with a version without changing them', async () => {
+      const sections: SectionConfig[] = [{
+        id: 'people',
+        name: 'People',
+        modules: [{
+          id: 'directory',
+          name: 'Directory',
+          description: '',
+          endpoints: [{ method: 'GET', path: '/users', summary: 'List users', description: '', tags: [] }],
+        }],
+      }];
+      await service.registerVersion('v1', versionDocument);
+      await service.registerVersion('v2', { ...versionDocument, paths: {} }, { sections });
+
+      const snapshot = await service.getVersionSnapshot('v1');
+      const custom = await service.getVersionSnapshot('v2');
+
+      expect(snapshot.sections[0].name).toBe('Accounts');
+      expect(custom.sections.map(section => section.name)).toEqual(['People']);
+      expect(custom.sections[0].modules[0].endpoints[0].missingInVersions).toBeUndefined();
+      expect(sections[0].modules[0].endpoints[0].versionKey).toBeUndefined();
+    });
+  });
+});
@@ -1,58 +1,116 @@
-import { Injectable, Inject, Optional } from '@nestjs/common';
-import { SectionConfig, ModuleConfig, Endpoint } from '../interfaces/documentation.interface';
+import { Injectable, Inject, Optional, OnModuleDestroy } from '@nestjs/common';
+import { DocumentationConfig, SectionConfig, ModuleConfig, Endpoint, SwaggerSourceOptions, SwaggerSourceRegistration, UnresolvedReference, ServiceInfo, SpecValidators, ValidationReport, ValidationSeverity, MediaTypeExample, SchemaNode, SecurityRequirement, SecuritySchemeInfo, EndpointParameter, NormalizedOperation, SpecChangelog, ApiVersionRegistration, ApiDocOptions, DiscoveredRoute, GroupingStrategy, GroupingFunction } from '../interfaces/documentation.interface';
+import { SpecLoaderService } from './spec-loader.service';
+import { RefResolverService } from './ref-resolver.service';
+import { SpecAggregatorService, RegisteredSource } from './spec-aggregator.service';
+import { SpecValidatorService } from './spec-validator.service';
+import { MediaTypeService } from './media-type.service';
+import { ExampleGeneratorService } from './example-generator.service';
+import { SchemaService } from './schema.service';
+import { SectionGroupingService } from './section-grouping.service';
+import { SpecDiffService } from './spec-diff.service';
+import { ApiDocDiscoveryService } from './api-doc-discovery.service';
+import { RouteDocumentService } from './route-document.service';
+import { DocumentFilterService } from './document-filter.service';
 import * as fs from 'fs';
 import * as path from 'path';
 
+interface LoadedSource {
+  document: any;
+  unresolved: UnresolvedReference[];
+  validators: SpecValidators;
+}
+
+interface RefreshState {
+  source: string;
+  options: SwaggerSourceOptions;
+  validators: SpecValidators;
+  apply: (loaded: LoadedSource) => void;
+  refreshing: boolean;
+  lastError?: string;
+  timer?: NodeJS.Timeout;
+  watcher?: fs.FSWatcher;
+  debounce?: NodeJS.Timeout;
+}
+
+export interface DocumentSnapshot {
+  document: any;
+  sections: SectionConfig[];
+  version: number;
+  /** Changes since the previous document, when one is set */
+  changelog?: SpecChangelog;
+}
+
+interface RegisteredVersion {
+  document: any;
+  options: ApiVersionRegistration;
+  snapshot?: DocumentSnapshot;
+}
+
+const DEFAULT_SOURCE_KEY = 'document';
+// Static docs routes that would shadow `<docs path>/<version>`
+const RESERVED_VERSION_NAMES = ['json', 'config', 'validate', 'changelog'];
+const DEFAULT_EXAMPLE_MAX_DEPTH = 8;
+
 @Injectable()
-export class SwaggerIntegrationService {
+export class SwaggerIntegrationService implements OnModuleDestroy {
   private swaggerDocument: any = null;
+  private unresolvedReferences: UnresolvedReference[] = [];
+  private readonly sources = new Map<string, RegisteredSource & { unresolved: UnresolvedReference[] }>();
+  private mergedDocument: any = null;
+  private readonly refreshStates = new Map<string, RefreshState>();
+  private documentVersion = 0;
+  private snapshot: DocumentSnapshot | null = null;
+  private readonly versions = new Map<string, RegisteredVersion>();
+  private previousDocument: any = null;
+  private previousDocumentLoad: Promise<void> | null = null;
 
-  constructor() {}
+  constructor(
+    private readonly specLoaderService: SpecLoaderService,
+    private readonly refResolverService: RefResolverService,
+    private readonly specAggregatorService: SpecAggregatorService,
+    private readonly specValidatorService: SpecValidatorService,
+    private readonly mediaTypeService: MediaTypeService,
+    private readonly exampleGeneratorService: ExampleGeneratorService,
+    private readonly schemaService: SchemaService,
+    private readonly sectionGroupingService: SectionGroupingService,
+    private readonly specDiffService: SpecDiffService,
+    private readonly documentFilterService: DocumentFilterService,
+    @Optional() private readonly apiDocDiscoveryService?: ApiDocDiscoveryService,
+    @Optional() private readonly routeDocumentService?: RouteDocumentService,
+    @Optional() @Inject('DOCUMENTATION_CONFIG') private readonly config?: DocumentationConfig,
+  ) {}
+
+  onModuleDestroy(): void {
+    this.stopRefresh();
+  }
 
   /**
    * Set the Swagger document manually (called from the application)
    */
   setSwaggerDocument(document: any): void {
-    this.swaggerDocument = document;
+    this.stopRefresh(DEFAULT_SOURCE_KEY);
+    this.swaggerDocument = this.normalizeSwaggerDocument(document);
+    this.unresolvedReferences = [];
+    this.documentChanged();
   }
 
   /**
    * Set Swagger document from URL or file path
-   * @param source URL (http/https) or file path to JSON file
-   * @param options Optional configuration for fetching
+   * @param source URL (http/https) or file path to a JSON or YAML document
+   * @param options Optional configuration for fetching and refreshing
    */
-  async setSwaggerJson(source: string, options?: {
-    timeout?: number;
-    headers?: Record<string, string>;
-    encoding?: BufferEncoding;
-  }): Promise<void> {
+  async setSwaggerJson(source: string, options?: SwaggerSourceOptions): Promise<void> {
     try {
-      console.log(`🔄 Loading Swagger document from: ${source}`);
-      
-      let swaggerDoc: any;
-      
-      if (this.isUrl(source)) {
-        // Fetch from URL
-        swaggerDoc = await this.fetchSwaggerFromUrl(source, options);
-      } else {
-        // Load from file path
-        swaggerDoc = await this.loadSwaggerFromFile(source, options?.encoding);
-      }
-      
-      // Validate the document
-      if (!this.isValidSwaggerDocument(swaggerDoc)) {
-        throw new Error('Invalid Swagger/OpenAPI document format');
-      }
-      
-      this.swaggerDocument = swaggerDoc;
-      console.log(`✅ Swagger document loaded successfully from: ${source}`);
-      console.log(`📊 Document info: ${swaggerDoc.info?.title || 'Unknown'} v${swaggerDoc.info?.version || 'Unknown'}`);
-      
-      if (swaggerDoc.paths) {
-        const pathCount = Object.keys(swaggerDoc.paths).length;
-        console.log(`🛣️  Found ${pathCount} paths in the document`);
-      }
-      
+      const loaded = await this.loadSwaggerSource(source, options);
+      const apply = (result: LoadedSource) => {
+        this.swaggerDocument = result.document;
+        this.unresolvedReferences = result.unresolved;
+        this.documentChanged();
+      };
+
+      apply(loaded);
+      this.startRefresh(DEFAULT_SOURCE_KEY, source, options, loaded.validators, apply);
     } catch (error) {
       console.error(`❌ Failed to load Swagger document from ${source}:`, error.message);
       throw new Error(`Failed to load Swagger document: ${error.message}`);
@@ -60,95 +118,407 @@ export class SwaggerIntegrationService {
   }
 
   /**
-   * Check if a string is a URL
+   * Register a named source (document object, file path or URL) for the aggregated portal.
+   * Once sources are registered, the documentation shows all of them merged into one document.
+   * @param name Service name, used for grouping and to de-conflict paths and components
+   * @param source Swagger/OpenAPI document, URL (http/https) or file path
+   * @param options Base server, path/tag prefixes, fetching and refresh options
    */
-  private isUrl(source: string): boolean {
+  async registerSource(name: string, source: any, options: SwaggerSourceRegistration = {}): Promise<void> {
+    const key = `source:${name}`;
     try {
-      const url = new URL(source);
-      return url.protocol === 'http:' || url.protocol === 'https:';
-    } catch {
-      return false;
+      const apply = (result: LoadedSource) => {
+        this.sources.set(name, { name, document: result.document, options, unresolved: result.unresolved });
+        this.documentChanged();
+      };
+
+      if (typeof source === 'string') {
+        const loaded = await this.loadSwaggerSource(source, options);
+        apply(loaded);
+        this.startRefresh(key, source, options, loaded.validators, apply);
+      } else {
+        if (!this.isValidSwaggerDocument(source)) {
+          throw new Error('Invalid Swagger/OpenAPI document format');
+        }
+        this.stopRefresh(key);
+        apply({ document: this.normalizeSwaggerDocument(source), unresolved: [], validators: {} });
+      }
+
+      console.log(`✅ Registered Swagger source "${name}" for Zedoc`);
+    } catch (error) {
+      console.error(`❌ Failed to register Swagger source "${name}":`, error.message);
+      throw new Error(`Failed to register Swagger source "${name}": ${error.message}`);
     }
   }
 
   /**
-   * Fetch Swagger document from URL
+   * Remove a previously registered source
    */
-  private async fetchSwaggerFromUrl(url: string, options?: {
-    timeout?: number;
-    headers?: Record<string, string>;
-  }): Promise<any> {
-    const timeout = options?.timeout || 10000; // 10 seconds default
-    const headers = {
-      'Accept': 'application/json',
-      'User-Agent': '@kodesonik/zedoc',
-      ...options?.headers
-    };
+  removeSource(name: string): boolean {
+    this.stopRefresh(`source:${name}`);
+    const removed = this.sources.delete(name);
+    if (removed) {
+      this.documentChanged();
+    }
+    return removed;
+  }
 
+  /**
+   * Get the names of the registered sources
+   */
+  getSourceNames(): string[] {
+    return Array.from(this.sources.keys());
+  }
+
+  /**
+   * Register a version of the API (document object, file path or URL), served at `<docs path>/<version>`
+   * @param version Version name used in the URL, e.g. `v2`
+   * @param source Swagger/OpenAPI document, URL (http/https) or file path
+   * @param options Selector label, servers and theme overrides, fetching and refresh options
+   */
+  async registerVersion(version: string, source: any, options: ApiVersionRegistration = {}): Promise<void> {
+    const key = `version:${version}`;
     try {
-      // Create abort controller for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers,
-        signal: controller.signal
-      });
+      if (!/^[A-Za-z0-9._-]+$/.test(version)) {
+        throw new Error('Version names may only contain letters, digits, ".", "_" and "-"');
+      }
+      // Routes are matched case-insensitively
+      if (RESERVED_VERSION_NAMES.includes(version.toLowerCase())) {
+        throw new Error(`"${version}" is a reserved docs route (${RESERVED_VERSION_NAMES.join(', ')})`);
+      }
 
-      clearTimeout(timeoutId);
+      const apply = (result: LoadedSource) => {
+        const document = options.servers ? { ...result.document, servers: options.servers } : result.document;
+        this.versions.set(version, { document, options });
+        this.documentChanged();
+      };
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      if (typeof source === 'string') {
+        const loaded = await this.loadSwaggerSource(source, options);
+        apply(loaded);
+        this.startRefresh(key, source, options, loaded.validators, apply);
+      } else {
+        if (!this.isValidSwaggerDocument(source)) {
+          throw new Error('Invalid Swagger/OpenAPI document format');
+        }
+        this.stopRefresh(key);
+        apply({ document: this.normalizeSwaggerDocument(source), unresolved: [], validators: {} });
       }
 
-      const contentType = response.headers.get('content-type');
-      if (!contentType?.includes('application/json')) {
-        console.warn(`⚠️  Content-Type is ${contentType}, expected application/json`);
-      }
+      console.log(`✅ Registered API version "${version}" for Zedoc`);
+    } catch (error) {
+      console.error(`❌ Failed to register API version "${version}":`, error.message);
+      throw new Error(`Failed to register API version "${version}": ${error.message}`);
+    }
+  }
 
-      const data = await response.json();
-      return data;
+  /**
+   * Remove a previously registered version
+   */
+  removeVersion(version: string): boolean {
+    this.stopRefresh(`version:${version}`);
+    const removed = this.versions.delete(version);
+    if (removed) {
+      this.documentChanged();
+    }
+    return removed;
+  }
 
-    } catch (error) {
-      if (error.name === 'AbortError') {
-        throw new Error(`Request timeout after ${timeout}ms`);
-      }
-      throw error;
+  /**
+   * Get the names of the registered versions, in registration order
+   */
+  getVersionNames(): string[] {
+    return Array.from(this.versions.keys());
+  }
+
+  /**
+   * Get the options a version was registered with
+   */
+  getVersionOptions(version: string): ApiVersionRegistration | undefined {
+    return this.versions.get(version)?.options;
+  }
+
+  /**
+   * Get the version served at the docs root: the one registered as `default`, else the first one
+   */
+  getDefaultVersion(): string | undefined {
+    const names = this.getVersionNames();
+    return names.find(name => this.versions.get(name).options.default) || names[0];
+  }
+
+  /**
+   * Get a registered version's document and sections, or null for an unknown version.
+   * Endpoints missing from other versions are marked with `missingInVersions`.
+   */
+  async getVersionSnapshot(version: string): Promise<DocumentSnapshot | null> {
+    const entry = this.versions.get(version);
+    if (!entry) {
+      return null;
+    }
+
+    if (!entry.snapshot || entry.snapshot.version !== this.documentVersion) {
+      // Copied, so marking missing endpoints leaves the registered sections untouched
+      const sections: SectionConfig[] = entry.options.sections
+        ? JSON.parse(JSON.stringify(entry.options.sections))
+        : this.convertSwaggerToSections(entry.document, entry.options.grouping);
+      this.markMissingEndpoints(version, sections);
+      entry.snapshot = { document: this.documentFilterService.filter(entry.document), sections, version: this.documentVersion };
     }
+    return entry.snapshot;
   }
 
   /**
-   * Load Swagger document from file path
+   * Get the key matching an endpoint across versions: the version's `pathPrefix` and parameter names are ignored,
+   * so with `pathPrefix: '/v1'` and `'/v2'`, `GET /v1/users/{id}` and `GET /v2/users/{userId}` are the same endpoint
    */
-  private async loadSwaggerFromFile(filePath: string, encoding: BufferEncoding = 'utf8'): Promise<any> {
+  getVersionEndpointKey(method: string, path: string, pathPrefix?: string): string {
+    const prefix = pathPrefix ? `/${pathPrefix.replace(/^\/+|\/+$/g, '')}` : '';
+    const unprefixed = prefix !== '/' && (path === prefix || path.startsWith(`${prefix}/`)) ? path.slice(prefix.length) : path;
+    return `${method.toUpperCase()} ${unprefixed.replace(/\{[^}]+\}/g, '{}') || '/'}`;
+  }
+
+  private markMissingEndpoints(version: string, sections: SectionConfig[]): void {
+    const others = this.getVersionNames()
+      .filter(name => name !== version)
+      .map(name => {
+        const { document, options } = this.versions.get(name);
+        const paths = document.paths || {};
+        const keys = new Set<string>();
+        Object.keys(paths).forEach(path => Object.keys(paths[path] || {}).forEach(method => keys.add(this.getVersionEndpointKey(method, path, options.pathPrefix))));
+        return { name, keys };
+      });
+
+    sections.forEach(section => section.modules.forEach(module => module.endpoints.forEach(endpoint => {
+      if (endpoint.webhook) return;
+      const key = this.getVersionEndpointKey(endpoint.method, endpoint.path, this.versions.get(version).options.pathPrefix);
+      const missing = others.filter(other => !other.keys.has(key)).map(other => other.name);
+      endpoint.versionKey = key;
+      endpoint.missingInVersions = missing.length > 0 ? missing : undefined;
+    })));
+  }
+
+  /**
+   * Stop refreshing one source (`document` for setSwaggerJson, `source:<name>` for registered sources,
+   * `version:<name>` for registered versions), or all of them
+   */
+  stopRefresh(key?: string): void {
+    const keys = key ? [key] : Array.from(this.refreshStates.keys());
+    keys.forEach(k => {
+      const state = this.refreshStates.get(k);
+      if (!state) return;
+      if (state.timer) clearInterval(state.timer);
+      if (state.debounce) clearTimeout(state.debounce);
+      state.watcher?.close();
+      this.refreshStates.delete(k);
+    });
+  }
+
+  /**
+   * Set the previous document the changelog is computed against
+   * @param source URL (http/https), file path or document object of the previous release
+   * @param options Optional configuration for fetching
+   */
+  async setPreviousDocument(source: any, options?: SwaggerSourceOptions): Promise<void> {
     try {
-      // Resolve relative paths
-      const resolvedPath = path.isAbsolute(filePath) ? filePath : path.resolve(process.cwd(), filePath);
-      
-      // Check if file exists
-      if (!fs.existsSync(resolvedPath)) {
-        throw new Error(`File not found: ${resolvedPath}`);
+      if (typeof source === 'string') {
+        this.previousDocument = (await this.loadSwaggerSource(source, options)).document;
+      } else {
+        if (!this.isValidSwaggerDocument(source)) {
+          throw new Error('Invalid Swagger/OpenAPI document format');
+        }
+        this.previousDocument = this.normalizeSwaggerDocument(source);
       }
+      this.documentChanged();
+    } catch (error) {
+      console.error(`❌ Failed to load previous Swagger document:`, error.message);
+      throw new Error(`Failed to load previous Swagger document: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the changes between the previous document and the current one, or null when no previous document is set
+   */
+  async getChangelog(): Promise<SpecChangelog | null> {
+    return (await this.getDocumentSnapshot()).changelog || null;
+  }
+
+  /**
+   * Get the current document together with its converted sections and changelog.
+   * They are swapped together whenever a refresh brings a new document.
+   */
+  async getDocumentSnapshot(): Promise<DocumentSnapshot> {
+    await this.loadConfiguredPreviousDocument();
+    const document = await this.getSwaggerDocument();
+    if (!this.snapshot || this.snapshot.version !== this.documentVersion || this.snapshot.document !== document) {
+      this.snapshot = {
+        document,
+        sections: document ? this.convertSwaggerToSections(document) : [],
+        version: this.documentVersion,
+        // Filtered alike, so hidden operations don't show up as removed
+        changelog: document && this.previousDocument ? this.specDiffService.diff(this.documentFilterService.filter(this.previousDocument), document) : undefined,
+      };
+    }
+    return this.snapshot;
+  }
 
-      // Check file extension
-      const ext = path.extname(resolvedPath).toLowerCase();
-      if (ext !== '.json') {
-        console.warn(`⚠️  File extension is ${ext}, expected .json`);
+  /**
+   * Load `changelog.previous` from the configuration once; a failure only disables the changelog
+   */
+  private loadConfiguredPreviousDocument(): Promise<void> {
+    const changelog = this.config?.changelog;
+    if (!this.previousDocumentLoad && !this.previousDocument && changelog?.previous) {
+      const { previous, ...options } = changelog;
+      this.previousDocumentLoad = this.setPreviousDocument(previous, options).catch(error => {
+        console.warn(`⚠️  Changelog disabled: ${error.message}`);
+      });
+    }
+    return this.previousDocumentLoad || Promise.resolve();
+  }
+
+  /**
+   * Get the document version, incremented every time the document changes
+   */
+  getDocumentVersion(): number {
+    return this.documentVersion;
+  }
+
+  private documentChanged(): void {
+    this.mergedDocument = null;
+    this.documentVersion++;
+  }
+
+  /**
+   * Poll and/or watch a source according to its refresh policy
+   */
+  private startRefresh(key: string, source: string, options: SwaggerSourceOptions | undefined, validators: SpecValidators, apply: (loaded: LoadedSource) => void): void {
+    this.stopRefresh(key);
+
+    const refresh = options?.refresh;
+    if (!refresh?.interval && !refresh?.watch) {
+      return;
+    }
+
+    const state: RefreshState = { source, options, validators, apply, refreshing: false };
+    this.refreshStates.set(key, state);
+
+    if (refresh.interval) {
+      state.timer = setInterval(() => this.refreshSource(state), refresh.interval);
+      state.timer.unref();
+    }
+
+    if (refresh.watch) {
+      if (this.specLoaderService.isUrl(source)) {
+        console.warn(`⚠️  Cannot watch ${source}: watching is only supported for file sources, use refresh.interval instead`);
+      } else {
+        // Watch the directory so editors that replace the file on save are still picked up
+        const filePath = this.specLoaderService.resolveFilePath(source);
+        state.watcher = fs.watch(path.dirname(filePath), (_event, fileName) => {
+          if (fileName && fileName.toString() !== path.basename(filePath)) return;
+          if (state.debounce) clearTimeout(state.debounce);
+          state.debounce = setTimeout(() => this.refreshSource(state), 100);
+        });
+        state.watcher.unref();
       }
+    }
 
-      // Read and parse file
-      const fileContent = fs.readFileSync(resolvedPath, encoding);
-      const data = JSON.parse(fileContent);
-      
-      return data;
+    console.log(`🔁 Refreshing ${source}${refresh.interval ? ` every ${refresh.interval}ms` : ''}${refresh.watch ? ' on file changes' : ''}`);
+  }
+
+  /**
+   * Reload a source if it changed, keeping the last good document on failure
+   */
+  private async refreshSource(state: RefreshState): Promise<void> {
+    if (state.refreshing) {
+      return;
+    }
+    state.refreshing = true;
 
+    try {
+      const result = await this.specLoaderService.loadIfModified(state.source, state.options, state.validators);
+      if (result.notModified) {
+        return;
+      }
+
+      this.refResolverService.clearCache(state.source);
+      const loaded = await this.prepareSwaggerDocument(result.document, state.source, state.options);
+      state.validators = result.validators;
+      state.apply({ ...loaded, validators: result.validators });
+      state.lastError = undefined;
+      console.log(`🔄 Swagger document refreshed from: ${state.source}`);
     } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new Error(`Invalid JSON format: ${error.message}`);
+      // Only report a failure once until it changes or the source recovers
+      if (state.lastError !== error.message) {
+        state.lastError = error.message;
+        console.warn(`⚠️  Could not refresh Swagger document from ${state.source}, keeping the last good version:`, error.message);
       }
-      throw error;
+    } finally {
+      state.refreshing = false;
+    }
+  }
+
+  /**
+   * Load, validate, normalize and bundle a document from URL or file path
+   */
+  private async loadSwaggerSource(source: string, options?: SwaggerSourceOptions): Promise<LoadedSource> {
+    console.log(`🔄 Loading Swagger document from: ${source}`);
+    
+    const { document: swaggerDoc, validators } = await this.specLoaderService.loadIfModified(source, options);
+    const result = await this.prepareSwaggerDocument(swaggerDoc, source, options);
+    
+    console.log(`✅ Swagger document loaded successfully from: ${source}`);
+    console.log(`📊 Document info: ${swaggerDoc.info?.title || 'Unknown'} v${swaggerDoc.info?.version || 'Unknown'}`);
+    
+    if (swaggerDoc.paths) {
+      const pathCount = Object.keys(swaggerDoc.paths).length;
+      console.log(`🛣️  Found ${pathCount} paths in the document`);
     }
+
+    return { ...result, validators };
+  }
+
+  /**
+   * Validate, normalize and bundle a parsed document
+   */
+  private async prepareSwaggerDocument(swaggerDoc: any, source: string, options?: SwaggerSourceOptions): Promise<{ document: any; unresolved: UnresolvedReference[] }> {
+    // Validate the document
+    if (!this.isValidSwaggerDocument(swaggerDoc)) {
+      throw new Error('Invalid Swagger/OpenAPI document format');
+    }
+    
+    // Resolve relative file and URL $refs against the source location
+    const result = await this.refResolverService.bundle(this.normalizeSwaggerDocument(swaggerDoc), source, options);
+
+    // The normalized, bundled document is the one served, and it marks the refs that could not be bundled
+    if (options?.failOn) {
+      this.assertValid(result.document, options.failOn);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the full validator on a loaded document and throw when issues reach the failOn severity
+   */
+  private assertValid(swaggerDoc: any, failOn: ValidationSeverity): void {
+    const report = this.specValidatorService.validate(swaggerDoc);
+
+    const failing = report.issues.filter(issue => issue.severity === 'error' || (failOn === 'warning' && issue.severity === 'warning'));
+    if (failing.length > 0) {
+      const details = failing.map(issue => `  - [${issue.severity}] ${issue.pointer || '/'}: ${issue.message}`).join('\n');
+      throw new Error(`Invalid Swagger/OpenAPI document (${report.errors} error(s), ${report.warnings} warning(s)):\n${details}`);
+    }
+
+    report.issues.forEach(issue => {
+      console.warn(`⚠️  [${issue.severity}] ${issue.pointer || '/'}: ${issue.message}`);
+    });
+  }
+
+  /**
+   * Validate the document currently served by Zedoc
+   */
+  async validateDocument(): Promise<ValidationReport | null> {
+    const document = await this.getSwaggerDocument();
+    return document ? this.specValidatorService.validate(document) : null;
   }
 
   /**
@@ -159,17 +529,427 @@ export class SwaggerIntegrationService {
       return false;
     }
 
-    // Check for OpenAPI 3.x
-    if (doc.openapi && typeof doc.openapi === 'string') {
-      return doc.openapi.startsWith('3.') && doc.info && doc.paths;
+    // Check for OpenAPI 3.x
+    if (doc.openapi && typeof doc.openapi === 'string') {
+      // OpenAPI 3.1 documents may describe only webhooks or components
+      const pathsOptional = doc.openapi.startsWith('3.1') && (doc.webhooks || doc.components);
+      return doc.openapi.startsWith('3.') && doc.info && (doc.paths || pathsOptional);
+    }
+
+    // Check for Swagger 2.x
+    if (doc.swagger && typeof doc.swagger === 'string') {
+      return doc.swagger.startsWith('2.') && doc.info && doc.paths;
+    }
+
+    return false;
+  }
+
+  /**
+   * Normalize a Swagger 2.0 document into the OpenAPI 3.0 shape the converter expects.
+   * OpenAPI 3.x documents are returned unchanged.
+   */
+  normalizeSwaggerDocument(doc: any): any {
+    if (!doc || typeof doc.swagger !== 'string' || !doc.swagger.startsWith('2.')) {
+      return doc;
+    }
+
+    const consumes = doc.consumes || ['application/json'];
+    const produces = doc.produces || ['application/json'];
+    const normalized: any = {
+      openapi: '3.0.3',
+      info: doc.info,
+      servers: this.convertSwagger2Servers(doc),
+      paths: {},
+      components: {},
+    };
+
+    ['tags', 'security', 'externalDocs'].forEach(key => {
+      if (doc[key]) normalized[key] = doc[key];
+    });
+    Object.keys(doc).filter(key => key.startsWith('x-')).forEach(key => {
+      normalized[key] = doc[key];
+    });
+
+    // Components
+    if (doc.definitions) {
+      normalized.components.schemas = {};
+      Object.keys(doc.definitions).forEach(name => {
+        normalized.components.schemas[name] = this.convertSwagger2Schema(doc.definitions[name]);
+      });
+    }
+
+    if (doc.parameters) {
+      Object.keys(doc.parameters).forEach(name => {
+        const param = doc.parameters[name];
+        if (param.in === 'body') {
+          normalized.components.requestBodies = normalized.components.requestBodies || {};
+          normalized.components.requestBodies[name] = this.convertSwagger2BodyParameter(param, consumes);
+        } else if (param.in !== 'formData') {
+          normalized.components.parameters = normalized.components.parameters || {};
+          normalized.components.parameters[name] = this.convertSwagger2Parameter(param);
+        }
+      });
+    }
+
+    if (doc.responses) {
+      normalized.components.responses = {};
+      Object.keys(doc.responses).forEach(name => {
+        normalized.components.responses[name] = this.convertSwagger2Response(doc.responses[name], produces);
+      });
+    }
+
+    if (doc.securityDefinitions) {
+      normalized.components.securitySchemes = {};
+      Object.keys(doc.securityDefinitions).forEach(name => {
+        normalized.components.securitySchemes[name] = this.convertSwagger2SecurityScheme(doc.securityDefinitions[name]);
+      });
+    }
+
+    // Paths
+    Object.keys(doc.paths || {}).forEach(pathKey => {
+      const pathItem = doc.paths[pathKey];
+      const pathParams = pathItem.parameters || [];
+      const normalizedPathItem: any = {};
+
+      Object.keys(pathItem).forEach(key => {
+        if (key === 'parameters') {
+          // Body and form parameters are merged into each operation's requestBody
+          const shared = pathParams
+            .filter((param: any) => !['body', 'formData'].includes(this.resolveSwagger2Parameter(param, doc)?.in))
+            .map((param: any) => this.convertSwagger2ParameterOrRef(param));
+          if (shared.length > 0) normalizedPathItem.parameters = shared;
+        } else if (['get', 'post', 'put', 'delete', 'patch', 'options', 'head'].includes(key)) {
+          normalizedPathItem[key] = this.convertSwagger2Operation(pathItem[key], pathParams, doc, consumes, produces);
+        } else {
+          normalizedPathItem[key] = pathItem[key];
+        }
+      });
+
+      normalized.paths[pathKey] = normalizedPathItem;
+    });
+
+    return this.rewriteSwagger2Refs(normalized, doc);
+  }
+
+  /**
+   * Build OpenAPI 3 servers from Swagger 2.0 host, basePath and schemes
+   */
+  private convertSwagger2Servers(doc: any): Array<{ url: string }> {
+    const basePath = doc.basePath || '';
+    if (!doc.host) {
+      return [{ url: basePath || '/' }];
+    }
+
+    const schemes: string[] = doc.schemes && doc.schemes.length > 0 ? doc.schemes : ['https'];
+    return schemes.map(scheme => ({ url: `${scheme}://${doc.host}${basePath}` }));
+  }
+
+  /**
+   * Convert a Swagger 2.0 operation (parameters, consumes/produces, responses)
+   */
+  private convertSwagger2Operation(operation: any, pathParams: any[], doc: any, defaultConsumes: string[], defaultProduces: string[]): any {
+    const { parameters: operationParams, consumes, produces, responses, ...rest } = operation;
+    const mediaConsumes = consumes || defaultConsumes;
+    const mediaProduces = produces || defaultProduces;
+    const normalized: any = { ...rest };
+    // Operation `schemes` have no OpenAPI 3 counterpart
+    delete normalized.schemes;
+
+    // Operation parameters override path-level parameters with the same name and location
+    const ownParams: any[] = operationParams || [];
+    const ownKeys = new Set(ownParams.map(param => {
+      const resolved = this.resolveSwagger2Parameter(param, doc);
+      return `${resolved?.in}:${resolved?.name}`;
+    }));
+    const inheritedParams = pathParams.filter(param => {
+      const resolved = this.resolveSwagger2Parameter(param, doc);
+      return ['body', 'formData'].includes(resolved?.in) && !ownKeys.has(`${resolved.in}:${resolved.name}`);
+    });
+
+    const parameters: any[] = [];
+    const formParams: any[] = [];
+    let bodyParam: any = null;
+
+    [...inheritedParams, ...ownParams].forEach(param => {
+      const resolved = this.resolveSwagger2Parameter(param, doc);
+      if (resolved?.in === 'body') {
+        bodyParam = param;
+      } else if (resolved?.in === 'formData') {
+        formParams.push(resolved);
+      } else {
+        parameters.push(this.convertSwagger2ParameterOrRef(param));
+      }
+    });
+
+    if (parameters.length > 0) {
+      normalized.parameters = parameters;
+    }
+
+    if (bodyParam) {
+      normalized.requestBody = bodyParam.$ref
+        ? { $ref: bodyParam.$ref }
+        : this.convertSwagger2BodyParameter(bodyParam, mediaConsumes);
+    } else if (formParams.length > 0) {
+      normalized.requestBody = this.convertSwagger2FormParameters(formParams, mediaConsumes);
+    }
+
+    if (responses) {
+      normalized.responses = {};
+      Object.keys(responses).forEach(code => {
+        normalized.responses[code] = this.convertSwagger2Response(responses[code], mediaProduces);
+      });
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Resolve a Swagger 2.0 parameter that may be a reference to #/parameters
+   */
+  private resolveSwagger2Parameter(param: any, doc: any): any {
+    if (param?.$ref && param.$ref.startsWith('#/parameters/')) {
+      return doc.parameters?.[this.decodePointerSegment(param.$ref.substring('#/parameters/'.length))];
+    }
+    return param;
+  }
+
+  private convertSwagger2ParameterOrRef(param: any): any {
+    return param.$ref ? { $ref: param.$ref } : this.convertSwagger2Parameter(param);
+  }
+
+  /**
+   * Convert a non-body Swagger 2.0 parameter to an OpenAPI 3 parameter with a schema
+   */
+  private convertSwagger2Parameter(param: any): any {
+    const { type, format, items, collectionFormat, default: defaultValue, maximum, exclusiveMaximum, minimum, exclusiveMinimum,
+      maxLength, minLength, pattern, maxItems, minItems, uniqueItems, enum: enumValues, multipleOf, allowEmptyValue,
+      'x-example': example, ...rest } = param;
+
+    const schema = this.convertSwagger2Schema({
+      type, format, items, default: defaultValue, maximum, exclusiveMaximum, minimum, exclusiveMinimum,
+      maxLength, minLength, pattern, maxItems, minItems, uniqueItems, enum: enumValues, multipleOf,
+    });
+    Object.keys(schema).forEach(key => schema[key] === undefined && delete schema[key]);
+
+    const normalized: any = { ...rest, schema };
+    if (example !== undefined) normalized.example = example;
+    if (allowEmptyValue !== undefined) normalized.allowEmptyValue = allowEmptyValue;
+
+    switch (collectionFormat) {
+      case 'csv':
+        normalized.style = param.in === 'query' || param.in === 'cookie' ? 'form' : 'simple';
+        normalized.explode = false;
+        break;
+      case 'multi':
+        normalized.style = 'form';
+        normalized.explode = true;
+        break;
+      case 'ssv':
+        normalized.style = 'spaceDelimited';
+        break;
+      case 'pipes':
+        normalized.style = 'pipeDelimited';
+        break;
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Convert an `in: body` parameter into an OpenAPI 3 requestBody
+   */
+  private convertSwagger2BodyParameter(param: any, consumes: string[]): any {
+    const content: any = {};
+    consumes.forEach(mediaType => {
+      content[mediaType] = { schema: this.convertSwagger2Schema(param.schema) };
+      if (param['x-example'] !== undefined) {
+        content[mediaType].example = param['x-example'];
+      }
+    });
+
+    return {
+      description: param.description,
+      required: param.required || false,
+      content,
+    };
+  }
+
+  /**
+   * Convert `in: formData` parameters into a form-encoded or multipart requestBody
+   */
+  private convertSwagger2FormParameters(params: any[], consumes: string[]): any {
+    const schema: any = { type: 'object', properties: {} };
+    const required: string[] = [];
+
+    params.forEach(param => {
+      const { schema: paramSchema } = this.convertSwagger2Parameter(param);
+      schema.properties[param.name] = { ...paramSchema, description: param.description };
+      if (param.required) required.push(param.name);
+    });
+    if (required.length > 0) schema.required = required;
+
+    const hasFile = params.some(param => param.type === 'file');
+    const formTypes = consumes.filter(type => type === 'multipart/form-data' || type === 'application/x-www-form-urlencoded');
+    const mediaTypes = formTypes.length > 0 ? formTypes : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+
+    const content: any = {};
+    mediaTypes.forEach(mediaType => {
+      content[mediaType] = { schema };
+    });
+
+    return { required: required.length > 0, content };
+  }
+
+  /**
+   * Convert a Swagger 2.0 response (schema, examples, headers) to OpenAPI 3
+   */
+  private convertSwagger2Response(response: any, produces: string[]): any {
+    if (response.$ref) {
+      return { $ref: response.$ref };
+    }
+
+    const { schema, examples, headers, ...rest } = response;
+    const normalized: any = { ...rest, description: response.description || '' };
+
+    if (schema || examples) {
+      normalized.content = {};
+      const mediaTypes = Array.from(new Set([...produces, ...Object.keys(examples || {})]));
+      mediaTypes.forEach(mediaType => {
+        const media: any = {};
+        if (schema) media.schema = this.convertSwagger2Schema(schema);
+        if (examples?.[mediaType] !== undefined) media.example = examples[mediaType];
+        if (Object.keys(media).length > 0) normalized.content[mediaType] = media;
+      });
+    }
+
+    if (headers) {
+      normalized.headers = {};
+      Object.keys(headers).forEach(name => {
+        const { description, ...headerSchema } = headers[name];
+        normalized.headers[name] = { description, schema: this.convertSwagger2Schema(headerSchema) };
+      });
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Convert Swagger 2.0 schema specifics (file type, x-nullable, string discriminator)
+   */
+  private convertSwagger2Schema(schema: any): any {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      return schema;
+    }
+
+    const normalized: any = { ...schema };
+
+    if (normalized.type === 'file') {
+      normalized.type = 'string';
+      normalized.format = 'binary';
+    }
+    if (normalized['x-nullable'] !== undefined) {
+      normalized.nullable = normalized['x-nullable'];
+      delete normalized['x-nullable'];
+    }
+    if (typeof normalized.discriminator === 'string') {
+      normalized.discriminator = { propertyName: normalized.discriminator };
+    }
+
+    if (normalized.properties) {
+      normalized.properties = { ...normalized.properties };
+      Object.keys(normalized.properties).forEach(name => {
+        normalized.properties[name] = this.convertSwagger2Schema(normalized.properties[name]);
+      });
+    }
+    if (normalized.items) {
+      normalized.items = this.convertSwagger2Schema(normalized.items);
+    }
+    if (normalized.additionalProperties && typeof normalized.additionalProperties === 'object') {
+      normalized.additionalProperties = this.convertSwagger2Schema(normalized.additionalProperties);
+    }
+    if (normalized.allOf) {
+      normalized.allOf = normalized.allOf.map((subSchema: any) => this.convertSwagger2Schema(subSchema));
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Convert a Swagger 2.0 security definition to an OpenAPI 3 security scheme
+   */
+  private convertSwagger2SecurityScheme(definition: any): any {
+    switch (definition.type) {
+      case 'basic':
+        return { type: 'http', scheme: 'basic', description: definition.description };
+      case 'apiKey':
+        return { type: 'apiKey', name: definition.name, in: definition.in, description: definition.description };
+      case 'oauth2': {
+        const flowNames = { implicit: 'implicit', password: 'password', application: 'clientCredentials', accessCode: 'authorizationCode' };
+        const flow: any = { scopes: definition.scopes || {} };
+        if (definition.authorizationUrl) flow.authorizationUrl = definition.authorizationUrl;
+        if (definition.tokenUrl) flow.tokenUrl = definition.tokenUrl;
+        return {
+          type: 'oauth2',
+          description: definition.description,
+          flows: { [flowNames[definition.flow] || definition.flow]: flow },
+        };
+      }
+      default:
+        return definition;
+    }
+  }
+
+  /**
+   * Rewrite Swagger 2.0 local references to their OpenAPI 3 component locations
+   */
+  private rewriteSwagger2Refs(node: any, doc: any): any {
+    if (Array.isArray(node)) {
+      return node.map(item => this.rewriteSwagger2Refs(item, doc));
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    const rewritten: any = {};
+    Object.keys(node).forEach(key => {
+      const value = node[key];
+      if (key === '$ref' && typeof value === 'string') {
+        rewritten[key] = this.rewriteSwagger2Ref(value, doc);
+      } else {
+        rewritten[key] = this.rewriteSwagger2Refs(value, doc);
+      }
+    });
+    return rewritten;
+  }
+
+  private rewriteSwagger2Ref(ref: string, doc: any): string {
+    if (ref.startsWith('#/definitions/')) {
+      return `#/components/schemas/${ref.substring('#/definitions/'.length)}`;
     }
-
-    // Check for Swagger 2.x
-    if (doc.swagger && typeof doc.swagger === 'string') {
-      return doc.swagger.startsWith('2.') && doc.info && doc.paths;
+    if (ref.startsWith('#/responses/')) {
+      return `#/components/responses/${ref.substring('#/responses/'.length)}`;
     }
+    if (ref.startsWith('#/parameters/')) {
+      const name = ref.substring('#/parameters/'.length);
+      const target = doc.parameters?.[this.decodePointerSegment(name)];
+      return target?.in === 'body' ? `#/components/requestBodies/${name}` : `#/components/parameters/${name}`;
+    }
+    return ref;
+  }
 
-    return false;
+  /**
+   * Decode a JSON pointer segment (~1 → /, ~0 → ~)
+   */
+  private decodePointerSegment(segment: string): string {
+    return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+  }
+
+  /**
+   * Get external $refs that could not be resolved when the document was loaded
+   */
+  getUnresolvedReferences(): UnresolvedReference[] {
+    const fromSources = Array.from(this.sources.values()).flatMap(source => source.unresolved);
+    return [...this.unresolvedReferences, ...fromSources];
   }
 
   /**
@@ -189,189 +969,395 @@ export class SwaggerIntegrationService {
   }
 
   /**
-   * Get Swagger document
+   * Get Swagger document: the registered sources, the stored document, or else the one built from the Nest routes.
+   * Excluded operations, parameters and properties are removed.
    */
   async getSwaggerDocument(): Promise<any> {
+    return this.documentFilterService.filter(await this.getUnfilteredDocument());
+  }
+
+  private async getUnfilteredDocument(): Promise<any> {
+    if (this.sources.size > 0) {
+      if (!this.mergedDocument) {
+        this.mergedDocument = this.specAggregatorService.merge(Array.from(this.sources.values()), this.swaggerDocument?.info || this.config);
+      }
+      return this.mergedDocument;
+    }
+
     if (this.swaggerDocument) {
       console.log('Found stored Swagger document');
       return this.swaggerDocument;
     }
 
+    if (this.routeDocumentService?.isEnabled()) {
+      return this.routeDocumentService.getDocument();
+    }
+
     console.warn('No Swagger document found');
     return null;
   }
 
   /**
-   * Automatically convert Swagger document to structured sections
-   * ApiTags become sections, ApiOperation summaries become modules
-   * Enhanced to handle complex real-world APIs with rich schemas and examples
+   * Automatically convert Swagger document to structured sections.
+   * Operations are arranged by the given or configured grouping strategy (by default ApiTags become sections
+   * and resource paths become modules), webhooks come last.
    */
-  convertSwaggerToSections(swaggerDoc: any): SectionConfig[] {
-    if (!swaggerDoc.paths) {
+  convertSwaggerToSections(swaggerDoc: any, groupingOverride?: GroupingStrategy | GroupingFunction): SectionConfig[] {
+    if (!swaggerDoc.paths && !swaggerDoc.webhooks) {
       return [];
     }
 
-    // Group endpoints by tags (sections)
-    const tagGroups: { [tag: string]: any[] } = {};
-    
-    Object.keys(swaggerDoc.paths).forEach(path => {
+    swaggerDoc = this.documentFilterService.filter(this.normalizeSwaggerDocument(swaggerDoc));
+
+    const grouping = groupingOverride || this.config?.grouping || 'tag-resource';
+    const operations = this.collectOperations(swaggerDoc);
+    const sections = this.sectionGroupingService.group(operations, grouping);
+    // Tag metadata only describes tag-based sections
+    const orderedSections = this.applyApiDocPlacement(
+      grouping === 'tag-resource' ? this.applyTagMetadata(sections, swaggerDoc) : sections,
+      operations,
+    );
+
+    const webhooks = this.convertWebhooksToSection(swaggerDoc);
+    if (webhooks) {
+      orderedSections.push(webhooks);
+    }
+
+    return orderedSections;
+  }
+
+  /**
+   * Normalize every operation of the document for the grouping strategies
+   */
+  private collectOperations(swaggerDoc: any): NormalizedOperation[] {
+    const services: ServiceInfo[] = swaggerDoc['x-zedoc-services'] || [];
+    const operations: NormalizedOperation[] = [];
+
+    Object.keys(swaggerDoc.paths || {}).forEach(path => {
       const pathItem = swaggerDoc.paths[path];
-      
+
       Object.keys(pathItem).forEach(method => {
         if (['get', 'post', 'put', 'delete', 'patch', 'options', 'head'].includes(method.toLowerCase())) {
           const operation = pathItem[method];
-          const tags = operation.tags || ['Default'];
-          
-          tags.forEach(tag => {
-            if (!tagGroups[tag]) {
-              tagGroups[tag] = [];
-            }
-            
-            tagGroups[tag].push({
-              method: method.toUpperCase(),
-              path: path,
-              summary: operation.summary || `${method.toUpperCase()} ${path}`,
-              description: operation.description || '',
-              operation: operation,
-              operationId: operation.operationId
-            });
-          });
+          const route = this.apiDocDiscoveryService?.findRoute(operation.operationId, method, path);
+          const apiDoc = route?.apiDoc;
+          const normalized = {
+            method: method.toUpperCase(),
+            path,
+            summary: operation.summary || `${method.toUpperCase()} ${path}`,
+            description: operation.description || '',
+            operationId: operation.operationId,
+            tags: operation.tags || [],
+            controller: operation['x-zedoc-controller'] || /^([A-Za-z0-9$]+?)Controller_/.exec(operation.operationId || '')?.[1],
+            service: services.find(service => service.id === operation['x-zedoc-service']),
+            server: operation.servers?.[0]?.url || pathItem.servers?.[0]?.url,
+            operation: this.dereferenceOperation(operation, swaggerDoc, pathItem),
+            apiDoc,
+          };
+
+          operations.push({ ...normalized, endpoint: this.applyRoute(this.buildEndpoint(normalized, swaggerDoc), route) });
         }
       });
     });
 
-    // Convert tag groups to sections
-    const sections: SectionConfig[] = [];
-    
-    Object.keys(tagGroups).forEach(tagName => {
-      const endpoints = tagGroups[tagName];
-      
-      // Group endpoints by summary (modules) - but be smarter about grouping
-      const moduleGroups: { [summary: string]: any[] } = {};
-      
-      endpoints.forEach(endpoint => {
-        // Use a more intelligent module name based on operation patterns
-        const moduleName = this.generateModuleName(endpoint, endpoints);
-        if (!moduleGroups[moduleName]) {
-          moduleGroups[moduleName] = [];
+    return operations;
+  }
+
+  /**
+   * Add what the controller route declares to an endpoint: `@ApiDoc` roles, notes, code samples and examples, and roles metadata.
+   * `@ApiDoc` roles win over `x-roles`, which win over the roles metadata.
+   * Examples without a `status` are request examples and replace the one generated from the schema.
+   */
+  private applyRoute(endpoint: Endpoint, route?: DiscoveredRoute): Endpoint {
+    if (!route) {
+      return endpoint;
+    }
+
+    const apiDoc = route.apiDoc || {};
+
+    const examples = apiDoc.examples || [];
+    const requestExamples = examples
+      .filter(example => example.status === undefined)
+      .map(example => ({ name: example.name, summary: example.summary || example.name, value: example.value }));
+    const responseExamples = examples
+      .filter(example => example.status !== undefined)
+      .map(example => ({ name: example.name, summary: `${example.status} - ${example.summary || example.name}`, status: example.status, value: example.value }));
+
+    return {
+      ...endpoint,
+      roles: apiDoc.roles ?? endpoint.roles ?? route.roles,
+      notes: apiDoc.notes,
+      codeSamples: apiDoc.codeSamples,
+      requestExamples: requestExamples.length > 0
+        ? [...requestExamples, ...(endpoint.requestExamples || []).filter(example => example.name !== 'generated')]
+        : endpoint.requestExamples,
+      responseExamples: [...responseExamples, ...(endpoint.responseExamples || [])],
+    };
+  }
+
+  /**
+   * Move endpoints to the section and module named in `@ApiDoc` (created when missing),
+   * then order the endpoints of each module by `@ApiDoc` order. Sections left empty are dropped.
+   */
+  private applyApiDocPlacement(sections: SectionConfig[], operations: NormalizedOperation[]): SectionConfig[] {
+    const apiDocs = new Map<Endpoint, ApiDocOptions>();
+    operations.filter(operation => operation.apiDoc).forEach(operation => apiDocs.set(operation.endpoint, operation.apiDoc));
+    if (apiDocs.size === 0) {
+      return sections;
+    }
+
+    sections.forEach(section => section.modules.forEach(module => {
+      [...module.endpoints].forEach(endpoint => {
+        const apiDoc = apiDocs.get(endpoint);
+        if (!apiDoc?.section && !apiDoc?.module) return;
+
+        const targetSection = apiDoc.section
+          ? sections.find(candidate => candidate.name === apiDoc.section && candidate.service?.id === section.service?.id)
+            || this.addSection(sections, apiDoc.section, section)
+          : section;
+        const moduleName = apiDoc.module || module.name;
+        let targetModule = targetSection.modules.find(candidate => candidate.name === moduleName);
+        if (targetModule === module) return;
+        if (!targetModule) {
+          targetModule = { id: this.sanitizeId(moduleName), name: moduleName, description: apiDoc.module ? '' : module.description, endpoints: [] };
+          targetSection.modules.push(targetModule);
         }
-        moduleGroups[moduleName].push(endpoint);
+
+        module.endpoints.splice(module.endpoints.indexOf(endpoint), 1);
+        targetModule.endpoints.push(endpoint);
       });
+    }));
 
-      // Convert module groups to modules
-      const modules: ModuleConfig[] = [];
-      
-      Object.keys(moduleGroups).forEach(moduleName => {
-        const moduleEndpoints = moduleGroups[moduleName];
-        
-        const endpointConfigs: Endpoint[] = moduleEndpoints.map(ep => {
-          const endpointConfig: Endpoint = {
-            method: ep.method,
-            path: ep.path,
-            summary: ep.summary,
-            description: ep.description,
-            requiresAuth: this.detectAuthRequirement(ep.operation, swaggerDoc),
-            tags: ep.operation.tags || [],
-            additionalHeaders: this.extractAdditionalHeaders(ep.operation),
-            requestBody: this.extractRequestBody(ep.operation, swaggerDoc),
-            successData: this.extractSuccessResponse(ep.operation, swaggerDoc),
-            successStatus: this.extractSuccessStatus(ep.operation),
-            successMessage: this.extractSuccessMessage(ep.operation, swaggerDoc),
-            errorResponses: this.extractErrorResponses(ep.operation, swaggerDoc),
-            // Enhanced fields for complex APIs
-            parameters: this.extractParameters(ep.operation, swaggerDoc),
-            requestExamples: this.extractRequestExamples(ep.operation, swaggerDoc),
-            responseExamples: this.extractResponseExamples(ep.operation, swaggerDoc)
-          };
-          
-          return endpointConfig;
-        });
+    return sections
+      .map(section => ({
+        ...section,
+        modules: section.modules
+          .filter(module => module.endpoints.length > 0)
+          // Array sort is stable, so endpoints without an order keep the order they were met in
+          .map(module => ({ ...module, endpoints: [...module.endpoints].sort((a, b) => (apiDocs.get(a)?.order ?? 0) - (apiDocs.get(b)?.order ?? 0)) })),
+      }))
+      .filter(section => section.modules.length > 0);
+  }
 
-        modules.push({
-          id: this.sanitizeId(moduleName),
-          name: moduleName,
-          description: this.generateModuleDescription(moduleName, moduleEndpoints),
-          endpoints: endpointConfigs
-        });
-      });
+  private addSection(sections: SectionConfig[], name: string, from: SectionConfig): SectionConfig {
+    const section: SectionConfig = {
+      id: from.service ? `${from.service.id}-${this.sanitizeId(name)}` : this.sanitizeId(name),
+      name,
+      modules: [],
+      service: from.service,
+    };
+    sections.push(section);
+    return section;
+  }
 
-      sections.push({
-        id: this.sanitizeId(tagName),
-        name: tagName,
-        modules: modules
-      });
+  /**
+   * Use the document `tags` (description, externalDocs, order) and `x-tagGroups` for the sections built from operation tags.
+   * Grouped sections come first in group order, then the others in `tags` order, then undeclared tags as they were met.
+   */
+  private applyTagMetadata(sections: SectionConfig[], swaggerDoc: any): SectionConfig[] {
+    const tags: any[] = Array.isArray(swaggerDoc.tags) ? swaggerDoc.tags : [];
+    const tagGroups: any[] = Array.isArray(swaggerDoc['x-tagGroups']) ? swaggerDoc['x-tagGroups'] : [];
+
+    const findTag = (section: SectionConfig) => tags.find(tag => tag?.name === section.name && (!tag['x-zedoc-service'] || tag['x-zedoc-service'] === section.service?.id));
+    const rank = (section: SectionConfig): number[] => {
+      const groupIndex = tagGroups.findIndex(group => Array.isArray(group?.tags) && group.tags.includes(section.name));
+      const tagIndex = tags.indexOf(findTag(section));
+      return groupIndex >= 0
+        ? [0, groupIndex, tagGroups[groupIndex].tags.indexOf(section.name)]
+        : [1, tagIndex >= 0 ? tagIndex : tags.length, 0];
+    };
+
+    sections.forEach(section => {
+      const tag = findTag(section);
+      if (tag?.description) {
+        section.description = tag.description;
+      }
+      if (tag?.externalDocs?.url && /^(https?:\/\/|\/|\.)/i.test(tag.externalDocs.url)) {
+        section.externalDocs = { url: tag.externalDocs.url, description: tag.externalDocs.description };
+      }
+      const group = tagGroups.find(candidate => Array.isArray(candidate?.tags) && candidate.tags.includes(section.name));
+      if (group?.name) {
+        section.group = group.name;
+      }
     });
 
-    return sections;
+    // Array sort is stable, so sections with the same rank keep the order they were met in
+    return [...sections].sort((a, b) => {
+      const rankA = rank(a);
+      const rankB = rank(b);
+      return rankA[0] - rankB[0] || rankA[1] - rankB[1] || rankA[2] - rankB[2];
+    });
   }
 
   /**
-   * Generate intelligent module names based on operation patterns
+   * OpenAPI 3.1 webhooks: requests the API sends to subscribers, one module per webhook name
    */
-  private generateModuleName(endpoint: any, allEndpoints: any[]): string {
-    const { operation, path, method } = endpoint;
-    
-    // If we have a clear summary, use it
-    if (operation.summary && operation.summary.length > 0) {
-      return operation.summary;
+  private convertWebhooksToSection(swaggerDoc: any): SectionConfig | undefined {
+    const names = Object.keys(swaggerDoc.webhooks || {});
+    if (names.length === 0) {
+      return undefined;
     }
-    
-    // Try to extract resource name from path
-    const pathParts = path.split('/').filter(part => part && !part.startsWith('{'));
-    const resourceName = pathParts[pathParts.length - 1] || pathParts[pathParts.length - 2] || 'Resource';
-    
-    // Generate based on method and resource
-    const methodActions = {
-      'GET': path.includes('{') ? `Get ${resourceName}` : `List ${resourceName}`,
-      'POST': `Create ${resourceName}`,
-      'PUT': `Update ${resourceName}`,
-      'PATCH': `Update ${resourceName}`,
-      'DELETE': `Delete ${resourceName}`
+
+    const modules: ModuleConfig[] = names.map(name => {
+      const webhook = swaggerDoc.webhooks[name];
+      const pathItem = webhook?.$ref ? this.resolveSchemaReference(webhook.$ref, swaggerDoc) || {} : webhook || {};
+      const endpoints = Object.keys(pathItem)
+        .filter(method => ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'].includes(method.toLowerCase()))
+        .map(method => {
+          const operation = pathItem[method];
+          return {
+            ...this.buildEndpoint({
+              method: method.toUpperCase(),
+              path: name,
+              summary: operation.summary || name,
+              description: operation.description || pathItem.description || '',
+              operation: this.dereferenceOperation(operation, swaggerDoc, pathItem),
+            }, swaggerDoc),
+            webhook: true,
+          };
+        });
+
+      return {
+        id: this.sanitizeId(name),
+        name,
+        description: pathItem.summary || pathItem.description || `${name} webhook`,
+        endpoints,
+      };
+    });
+
+    return {
+      id: 'webhooks',
+      name: 'Webhooks',
+      description: 'Requests this API sends to your endpoints when events happen.',
+      modules,
     };
-    
-    return methodActions[method] || `${method} ${resourceName}`;
   }
 
   /**
-   * Generate module description based on endpoints
+   * Build the documented endpoint of one operation
    */
-  private generateModuleDescription(moduleName: string, endpoints: any[]): string {
-    if (endpoints.length === 1) {
-      return endpoints[0].description || `${moduleName} operations`;
+  private buildEndpoint(ep: any, swaggerDoc: any): Endpoint {
+    const security = this.extractSecurityRequirements(ep.operation, swaggerDoc);
+    const deprecation = this.schemaService.describeDeprecation(ep.operation);
+
+    return {
+      deprecated: deprecation !== undefined || undefined,
+      deprecation,
+      operationId: ep.operation.operationId,
+      method: ep.method,
+      path: ep.path,
+      summary: ep.summary,
+      description: ep.description,
+      // An empty requirement (`{}`) makes authentication optional
+      requiresAuth: security.length > 0 && security.every(requirement => requirement.schemes.length > 0),
+      security,
+      tags: ep.operation.tags || [],
+      roles: this.extractRoles(ep.operation),
+      server: ep.server,
+      additionalHeaders: this.extractAdditionalHeaders(ep.operation),
+      requestBody: this.extractRequestBody(ep.operation, swaggerDoc),
+      requestMediaTypes: this.extractMediaTypes(ep.operation.requestBody?.content, swaggerDoc),
+      successData: this.extractSuccessResponse(ep.operation, swaggerDoc),
+      successMediaTypes: this.extractMediaTypes(this.findSuccessResponse(ep.operation)?.content, swaggerDoc),
+      requestModel: this.extractModelName(ep.operation.requestBody?.content),
+      responseModel: this.extractModelName(this.findSuccessResponse(ep.operation)?.content),
+      requestSchema: this.extractSchemaTree(ep.operation.requestBody?.content, swaggerDoc),
+      responseSchema: this.extractSchemaTree(this.findSuccessResponse(ep.operation)?.content, swaggerDoc),
+      successStatus: this.extractSuccessStatus(ep.operation),
+      successMessage: this.extractSuccessMessage(ep.operation),
+      errorResponses: this.extractErrorResponses(ep.operation, swaggerDoc),
+      // Enhanced fields for complex APIs
+      parameters: this.extractParameters(ep.operation, swaggerDoc),
+      requestExamples: this.extractRequestExamples(ep.operation, swaggerDoc),
+      responseExamples: this.extractResponseExamples(ep.operation)
+    };
+  }
+
+  /**
+   * `x-roles` extension: a list of role names or a single name
+   */
+  private extractRoles(operation: any): string[] | undefined {
+    const roles = operation['x-roles'];
+    if (typeof roles === 'string') {
+      return [roles];
     }
-    
-    const methods = endpoints.map(ep => ep.method).join(', ');
-    return `${moduleName} operations (${methods})`;
+    return Array.isArray(roles) && roles.length > 0 ? roles.map(String) : undefined;
   }
 
   /**
-   * Enhanced authentication detection with security schemes
+   * Resolve requestBody, response and parameter reference objects so extractors can read their content.
+   * Path-level parameters are merged in; an operation parameter with the same name and location overrides them.
    */
-  private detectAuthRequirement(operation: any, swaggerDoc: any): boolean {
-    // Check if operation has security requirements
-    if (operation.security && operation.security.length > 0) {
-      return true;
+  private dereferenceOperation(operation: any, swaggerDoc: any, pathItem?: any): any {
+    const dereferenced = { ...operation };
+
+    const resolveParameters = (parameters: any): any[] => (Array.isArray(parameters) ? parameters : [])
+      .map(param => param?.$ref ? this.resolveSchemaReference(param.$ref, swaggerDoc) : param)
+      .filter(param => param && param.name && param.in);
+    const ownParams = resolveParameters(operation.parameters);
+    const ownKeys = new Set(ownParams.map(param => `${param.in}:${param.name}`));
+    const parameters = [
+      ...resolveParameters(pathItem?.parameters).filter(param => !ownKeys.has(`${param.in}:${param.name}`)),
+      ...ownParams,
+    ];
+    if (parameters.length > 0) {
+      dereferenced.parameters = parameters;
     }
-    
-    // Check global security if no operation-level security
-    if (!operation.security && swaggerDoc.security && swaggerDoc.security.length > 0) {
-      return true;
+
+    if (operation.requestBody?.$ref) {
+      dereferenced.requestBody = this.resolveSchemaReference(operation.requestBody.$ref, swaggerDoc) || operation.requestBody;
     }
-    
-    // Check for common auth-related parameters or headers
-    if (operation.parameters) {
-      const hasAuthParam = operation.parameters.some((param: any) => 
-        param.name && (
-          param.name.toLowerCase().includes('auth') ||
-          param.name.toLowerCase().includes('token') ||
-          param.name.toLowerCase().includes('key') ||
-          param.name.toLowerCase() === 'authorization'
-        )
-      );
-      if (hasAuthParam) return true;
+
+    if (operation.responses) {
+      dereferenced.responses = {};
+      Object.keys(operation.responses).forEach(code => {
+        const response = operation.responses[code];
+        dereferenced.responses[code] = response?.$ref
+          ? this.resolveSchemaReference(response.$ref, swaggerDoc) || response
+          : response;
+      });
     }
-    
-    return false;
+
+    return dereferenced;
+  }
+
+  /**
+   * Security requirements of an operation (or the document-level default), resolved against `components.securitySchemes`.
+   * Names without a declared scheme are kept as undeclared schemes, so the requirement still reads as required;
+   * the validator reports them.
+   */
+  private extractSecurityRequirements(operation: any, swaggerDoc: any): SecurityRequirement[] {
+    const requirements = operation.security ?? swaggerDoc.security ?? [];
+    const declared = swaggerDoc.components?.securitySchemes || {};
+
+    const resolved: SecurityRequirement[] = [];
+    requirements.filter((requirement: any) => requirement && typeof requirement === 'object').forEach((requirement: any) => {
+      const schemes = Object.keys(requirement).map(name => {
+        const definition = declared[name]?.$ref ? this.resolveSchemaReference(declared[name].$ref, swaggerDoc) : declared[name];
+        return definition
+          ? this.describeSecurityScheme(name, definition, requirement[name])
+          : { name, undeclared: true, scopes: Array.isArray(requirement[name]) ? requirement[name] : [] };
+      });
+      resolved.push({ schemes });
+    });
+
+    // Alternatives are unordered, listing the optional one last keeps the UI readable
+    return resolved.sort((a, b) => Number(a.schemes.length === 0) - Number(b.schemes.length === 0));
+  }
+
+  private describeSecurityScheme(name: string, definition: any, scopes: any): SecuritySchemeInfo {
+    return {
+      name,
+      type: definition.type,
+      description: definition.description,
+      scheme: definition.type === 'http' ? String(definition.scheme || '').toLowerCase() : undefined,
+      bearerFormat: definition.bearerFormat,
+      in: definition.type === 'apiKey' ? definition.in : undefined,
+      parameterName: definition.type === 'apiKey' ? definition.name : undefined,
+      flows: definition.type === 'oauth2' ? Object.keys(definition.flows || {}) : undefined,
+      openIdConnectUrl: definition.openIdConnectUrl,
+      scopes: Array.isArray(scopes) ? scopes : [],
+    };
   }
 
   /**
@@ -399,24 +1385,9 @@ export class SwaggerIntegrationService {
     
     try {
       const content = operation.requestBody.content;
-      if (content && content['application/json']) {
-        const schema = content['application/json'].schema;
-        
-        if (schema) {
-          // If it's a reference, resolve it
-          if (schema.$ref) {
-            const resolvedSchema = this.resolveSchemaReference(schema.$ref, swaggerDoc);
-            return this.generateExampleFromSchema(resolvedSchema, swaggerDoc);
-          }
-          
-          // If it has a direct example
-          if (schema.example) {
-            return schema.example;
-          }
-          
-          // Generate from schema
-          return this.generateExampleFromSchema(schema, swaggerDoc);
-        }
+      const mediaType = this.mediaTypeService.preferred(content);
+      if (mediaType) {
+        return this.extractMediaTypeExample(content[mediaType], swaggerDoc);
       }
     } catch (error) {
       console.warn('Error extracting request body:', error);
@@ -429,47 +1400,11 @@ export class SwaggerIntegrationService {
    * Enhanced success response extraction with schema resolution
    */
   private extractSuccessResponse(operation: any, swaggerDoc: any): any {
-    if (!operation.responses) return undefined;
-    
     try {
-      // Look for success responses in order of preference
-      const successCodes = ['200', '201', '202', '204'];
-      let successResponse = null;
-      let successCode = null;
-      
-      for (const code of successCodes) {
-        if (operation.responses[code]) {
-          successResponse = operation.responses[code];
-          successCode = code;
-          break;
-        }
-      }
-      
-      if (!successResponse) {
-        // Find first 2xx response
-        successCode = Object.keys(operation.responses).find(code => 
-          code.startsWith('2') && code.length === 3
-        );
-        if (successCode) {
-          successResponse = operation.responses[successCode];
-        }
-      }
-      
-      if (successResponse && successResponse.content) {
-        const content = successResponse.content['application/json'];
-        if (content && content.schema) {
-          // Resolve schema references
-          if (content.schema.$ref) {
-            const resolvedSchema = this.resolveSchemaReference(content.schema.$ref, swaggerDoc);
-            return this.generateExampleFromSchema(resolvedSchema, swaggerDoc);
-          }
-          
-          if (content.schema.example) {
-            return content.schema.example;
-          }
-          
-          return this.generateExampleFromSchema(content.schema, swaggerDoc);
-        }
+      const content = this.findSuccessResponse(operation)?.content;
+      const mediaType = this.mediaTypeService.preferred(content);
+      if (mediaType) {
+        return this.extractMediaTypeExample(content[mediaType], swaggerDoc);
       }
     } catch (error) {
       console.warn('Error extracting success response:', error);
@@ -478,10 +1413,102 @@ export class SwaggerIntegrationService {
     return undefined;
   }
 
+  /**
+   * Find the success response of an operation (200, 201, 202, 204, then any 2xx)
+   */
+  private findSuccessResponse(operation: any): any {
+    if (!operation.responses) return undefined;
+
+    // Look for success responses in order of preference
+    const successCodes = ['200', '201', '202', '204'];
+    for (const code of successCodes) {
+      if (operation.responses[code]) {
+        return operation.responses[code];
+      }
+    }
+
+    // Find first 2xx response
+    const successCode = Object.keys(operation.responses).find(code => 
+      code.startsWith('2') && code.length === 3
+    );
+    return successCode ? operation.responses[successCode] : undefined;
+  }
+
+  /**
+   * Name of the component schema used by the preferred media type, if any
+   */
+  private extractModelName(content: Record<string, any> | undefined): string | undefined {
+    const mediaType = this.mediaTypeService.preferred(content);
+    return mediaType ? this.schemaService.modelName(content[mediaType].schema) : undefined;
+  }
+
+  /**
+   * Property tree of the schema used by the preferred media type, if any
+   */
+  private extractSchemaTree(content: Record<string, any> | undefined, swaggerDoc: any): SchemaNode | undefined {
+    const mediaType = this.mediaTypeService.preferred(content);
+    const schema = mediaType ? content[mediaType].schema : undefined;
+    return schema ? this.schemaService.buildSchemaTree(schema, swaggerDoc) : undefined;
+  }
+
+  /**
+   * Get the example for one media type object: explicit example, first named example, then the schema
+   */
+  private extractMediaTypeExample(media: any, swaggerDoc: any): any {
+    if (!media) return undefined;
+
+    if (media.example !== undefined) {
+      return media.example;
+    }
+
+    const exampleNames = Object.keys(media.examples || {});
+    if (exampleNames.length > 0 && media.examples[exampleNames[0]]?.value !== undefined) {
+      return media.examples[exampleNames[0]].value;
+    }
+
+    if (media.schema) {
+      // Unresolved refs are reported in the generated example
+      if (!media.schema.$ref && media.schema.example !== undefined) {
+        return media.schema.example;
+      }
+      return this.generateExampleFromSchema(media.schema, swaggerDoc);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Carry every media type of a content map with its example, serialized example and encoding
+   */
+  private extractMediaTypes(content: Record<string, any> | undefined, swaggerDoc: any): MediaTypeExample[] | undefined {
+    const mediaTypes = Object.keys(content || {});
+    if (mediaTypes.length === 0) return undefined;
+
+    return mediaTypes.map(mediaType => {
+      const media = content[mediaType] || {};
+      const example = this.extractMediaTypeExample(media, swaggerDoc);
+      const schema = media.schema?.$ref ? this.resolveSchemaReference(media.schema.$ref, swaggerDoc) : media.schema;
+      const name = media.schema?.$ref ? media.schema.$ref.split('/').pop() : undefined;
+
+      return {
+        mediaType,
+        contentType: this.mediaTypeService.contentType(mediaType),
+        example,
+        exampleText: this.mediaTypeService.serializeExample(mediaType, example, { schema, encoding: media.encoding, name }),
+        examples: media.examples ? Object.keys(media.examples).map(key => ({
+          name: key,
+          summary: media.examples[key].summary || key,
+          value: media.examples[key].value
+        })) : undefined,
+        encoding: media.encoding,
+      };
+    });
+  }
+
   /**
    * Extract success message from response description
    */
-  private extractSuccessMessage(operation: any, swaggerDoc: any): string | undefined {
+  private extractSuccessMessage(operation: any): string | undefined {
     if (!operation.responses) return undefined;
     
     const successCodes = ['200', '201', '202', '204'];
@@ -518,10 +1545,10 @@ export class SwaggerIntegrationService {
   /**
    * Enhanced error response extraction with detailed error information
    */
-  private extractErrorResponses(operation: any, swaggerDoc: any): Array<{status: number, description: string, error: string, message: string}> {
+  private extractErrorResponses(operation: any, swaggerDoc: any): Endpoint['errorResponses'] {
     if (!operation.responses) return [];
     
-    const errorResponses: Array<{status: number, description: string, error: string, message: string}> = [];
+    const errorResponses: Endpoint['errorResponses'] = [];
     
     Object.keys(operation.responses).forEach(statusCode => {
       const code = parseInt(statusCode);
@@ -530,23 +1557,14 @@ export class SwaggerIntegrationService {
         let errorExample = null;
         let errorMessage = response.description || `Error ${code}`;
         
-        // Try to extract error example from schema
-        if (response.content && response.content['application/json']) {
-          const schema = response.content['application/json'].schema;
-          if (schema) {
-            if (schema.$ref) {
-              const resolvedSchema = this.resolveSchemaReference(schema.$ref, swaggerDoc);
-              errorExample = this.generateExampleFromSchema(resolvedSchema, swaggerDoc);
-            } else if (schema.example) {
-              errorExample = schema.example;
-            } else {
-              errorExample = this.generateExampleFromSchema(schema, swaggerDoc);
-            }
-            
-            // Extract message from example if available
-            if (errorExample && errorExample.message) {
-              errorMessage = errorExample.message;
-            }
+        // Try to extract error example from the preferred media type
+        const mediaType = this.mediaTypeService.preferred(response.content);
+        if (mediaType) {
+          errorExample = this.extractMediaTypeExample(response.content[mediaType], swaggerDoc);
+          
+          // Extract message from example if available
+          if (errorExample && errorExample.message) {
+            errorMessage = errorExample.message;
           }
         }
         
@@ -554,7 +1572,8 @@ export class SwaggerIntegrationService {
           status: code,
           description: response.description || `Error ${code}`,
           error: errorExample?.error || `ERROR_${code}`,
-          message: errorMessage
+          message: errorMessage,
+          mediaTypes: this.extractMediaTypes(response.content, swaggerDoc)
         });
       }
     });
@@ -565,17 +1584,33 @@ export class SwaggerIntegrationService {
   /**
    * Extract parameters (query, path, header)
    */
-  private extractParameters(operation: any, swaggerDoc: any): any[] {
+  private extractParameters(operation: any, swaggerDoc: any): EndpointParameter[] {
     if (!operation.parameters) return [];
     
-    return operation.parameters.map((param: any) => ({
-      name: param.name,
-      in: param.in,
-      required: param.required || false,
-      description: param.description || '',
-      type: param.schema?.type || 'string',
-      example: param.example || param.schema?.example || this.generateExampleForType(param.schema?.type)
-    }));
+    return operation.parameters.map((param: any) => {
+      // Parameters may describe their value with `content` instead of `schema`
+      const contentType = this.mediaTypeService.preferred(param.content);
+      const schema = param.schema || (contentType ? param.content[contentType].schema : undefined);
+      const resolvedSchema = schema?.$ref ? this.resolveSchemaReference(schema.$ref, swaggerDoc) || schema : schema;
+      const style = param.style || (param.in === 'query' || param.in === 'cookie' ? 'form' : 'simple');
+      const enumValues = resolvedSchema?.enum || resolvedSchema?.items?.enum;
+      const deprecation = this.schemaService.describeDeprecation(param);
+
+      return {
+        name: param.name,
+        in: param.in,
+        required: param.in === 'path' || param.required || false,
+        description: param.description || '',
+        type: schema ? this.schemaService.describeType(schema) : 'string',
+        example: param.example ?? Object.values(param.examples || {}).map((example: any) => example?.value).find(value => value !== undefined) ?? schema?.example ?? this.generateExampleFromSchema(schema || { type: 'string' }, swaggerDoc, `${param.in}.${param.name}`, param.name),
+        schema,
+        style,
+        explode: param.explode ?? style === 'form',
+        enum: Array.isArray(enumValues) ? enumValues : undefined,
+        deprecated: deprecation !== undefined || undefined,
+        deprecation,
+      };
+    });
   }
 
   /**
@@ -583,41 +1618,45 @@ export class SwaggerIntegrationService {
    */
   private extractRequestExamples(operation: any, swaggerDoc: any): any[] {
     const examples: any[] = [];
+    const content = operation.requestBody?.content || {};
     
-    if (operation.requestBody && operation.requestBody.content) {
-      const content = operation.requestBody.content['application/json'];
-      if (content) {
-        // Check for examples object
-        if (content.examples) {
-          Object.keys(content.examples).forEach(key => {
-            examples.push({
-              name: key,
-              summary: content.examples[key].summary || key,
-              value: content.examples[key].value
-            });
-          });
-        }
-        
-        // Check for single example
-        if (content.example) {
+    Object.keys(content).forEach(mediaType => {
+      const media = content[mediaType];
+      
+      // Check for examples object
+      if (media.examples) {
+        Object.keys(media.examples).forEach(key => {
           examples.push({
-            name: 'default',
-            summary: 'Default example',
-            value: content.example
+            name: key,
+            summary: media.examples[key].summary || key,
+            value: media.examples[key].value,
+            mediaType
           });
-        }
-        
-        // Generate from schema if no examples
-        if (examples.length === 0 && content.schema) {
-          const generated = this.extractRequestBody(operation, swaggerDoc);
-          if (generated) {
-            examples.push({
-              name: 'generated',
-              summary: 'Generated example',
-              value: generated
-            });
-          }
-        }
+        });
+      }
+      
+      // Check for single example
+      if (media.example !== undefined) {
+        examples.push({
+          name: 'default',
+          summary: 'Default example',
+          value: media.example,
+          mediaType
+        });
+      }
+    });
+    
+    // Generate from schema if no examples
+    if (examples.length === 0) {
+      const mediaType = this.mediaTypeService.preferred(content);
+      const generated = mediaType && content[mediaType].schema ? this.extractRequestBody(operation, swaggerDoc) : undefined;
+      if (generated) {
+        examples.push({
+          name: 'generated',
+          summary: 'Generated example',
+          value: generated,
+          mediaType
+        });
       }
     }
     
@@ -627,37 +1666,40 @@ export class SwaggerIntegrationService {
   /**
    * Extract response examples from multiple sources
    */
-  private extractResponseExamples(operation: any, swaggerDoc: any): any[] {
+  private extractResponseExamples(operation: any): any[] {
     const examples: any[] = [];
     
     if (operation.responses) {
       Object.keys(operation.responses).forEach(statusCode => {
-        const response = operation.responses[statusCode];
-        if (response.content && response.content['application/json']) {
-          const content = response.content['application/json'];
+        const content = operation.responses[statusCode]?.content || {};
+        
+        Object.keys(content).forEach(mediaType => {
+          const media = content[mediaType];
           
           // Check for examples object
-          if (content.examples) {
-            Object.keys(content.examples).forEach(key => {
+          if (media.examples) {
+            Object.keys(media.examples).forEach(key => {
               examples.push({
                 name: `${statusCode}_${key}`,
-                summary: `${statusCode} - ${content.examples[key].summary || key}`,
+                summary: `${statusCode} - ${media.examples[key].summary || key}`,
                 status: parseInt(statusCode),
-                value: content.examples[key].value
+                value: media.examples[key].value,
+                mediaType
               });
             });
           }
           
           // Check for single example
-          if (content.example) {
+          if (media.example !== undefined) {
             examples.push({
               name: `${statusCode}_default`,
               summary: `${statusCode} - Default example`,
               status: parseInt(statusCode),
-              value: content.example
+              value: media.example,
+              mediaType
             });
           }
-        }
+        });
       });
     }
     
@@ -668,70 +1710,94 @@ export class SwaggerIntegrationService {
    * Resolve schema reference ($ref) to actual schema
    */
   private resolveSchemaReference(ref: string, swaggerDoc: any): any {
-    if (!ref.startsWith('#/')) {
-      return null;
-    }
-    
-    const path = ref.substring(2).split('/');
-    let current = swaggerDoc;
-    
-    for (const segment of path) {
-      if (current && current[segment]) {
-        current = current[segment];
-      } else {
-        return null;
-      }
-    }
-    
-    return current;
+    return this.schemaService.resolveRef(ref, swaggerDoc) ?? null;
   }
 
   /**
    * Enhanced example generation from schema with reference resolution
+   * @param path Location of the value, so generated values are stable across renders
+   * @param name Property or parameter name, used for name heuristics
+   * @param refStack $ref targets being expanded along the current path, used to detect cycles
+   * @param depth Current nesting depth, capped by `examples.maxDepth`
    */
-  private generateExampleFromSchema(schema: any, swaggerDoc: any, visited: Set<string> = new Set()): any {
+  private generateExampleFromSchema(schema: any, swaggerDoc: any, path = '', name?: string, refStack: string[] = [], depth = 0): any {
     if (!schema) return undefined;
     
-    // Handle circular references
-    const schemaKey = JSON.stringify(schema);
-    if (visited.has(schemaKey)) {
-      return '[Circular Reference]';
-    }
-    visited.add(schemaKey);
-    
     // Handle schema references
     if (schema.$ref) {
       const resolvedSchema = this.resolveSchemaReference(schema.$ref, swaggerDoc);
-      if (resolvedSchema) {
-        return this.generateExampleFromSchema(resolvedSchema, swaggerDoc, visited);
+      if (!resolvedSchema) {
+        return `[Unresolved reference: ${schema.$ref}]`;
       }
+      // A ref already being expanded on this path is a real cycle: stop with a minimal valid value
+      if (refStack.includes(schema.$ref)) {
+        return this.generateTruncatedExample(resolvedSchema, swaggerDoc, path, name);
+      }
+      return this.generateExampleFromSchema(resolvedSchema, swaggerDoc, path, name, [...refStack, schema.$ref], depth);
     }
     
-    // Use existing example if available
+    // Use existing example, constant or default value if available
     if (schema.example !== undefined) {
       return schema.example;
     }
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+      return schema.examples[0];
+    }
+    if (schema.const !== undefined) {
+      return schema.const;
+    }
+    if (schema.default !== undefined) {
+      return schema.default;
+    }
+    
+    if (depth >= (this.config?.examples?.maxDepth ?? DEFAULT_EXAMPLE_MAX_DEPTH)) {
+      return this.generateTruncatedExample(schema, swaggerDoc, path, name);
+    }
     
-    // Handle different schema types
-    if (schema.type === 'object' && schema.properties) {
+    // Handle different schema types, the first non-null entry of a type array wins
+    const type = this.exampleGeneratorService.primaryType(schema);
+    if (type === 'null') {
+      return null;
+    }
+
+    if (type === 'object' && schema.properties) {
       const example: any = {};
       Object.keys(schema.properties).forEach(prop => {
         const propSchema = schema.properties[prop];
-        example[prop] = this.generateExampleFromSchema(propSchema, swaggerDoc, visited);
+        example[prop] = this.generateExampleFromSchema(propSchema, swaggerDoc, path ? `${path}.${prop}` : prop, prop, refStack, depth + 1);
       });
       return example;
     }
     
-    if (schema.type === 'array' && schema.items) {
-      const itemExample = this.generateExampleFromSchema(schema.items, swaggerDoc, visited);
-      return [itemExample];
+    if (type === 'object' && schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      const key = 'key';
+      return { [key]: this.generateExampleFromSchema(schema.additionalProperties, swaggerDoc, `${path}.${key}`, name, refStack, depth + 1) };
+    }
+    
+    if (type === 'array' && Array.isArray(schema.prefixItems)) {
+      // Tuple: one value per position, then items to reach minItems
+      const tuple = schema.prefixItems.map((item: any, index: number) =>
+        this.generateExampleFromSchema(item, swaggerDoc, `${path}[${index}]`, name, refStack, depth + 1)
+      );
+      for (let index = tuple.length; schema.items && index < (schema.minItems ?? 0); index++) {
+        tuple.push(this.generateExampleFromSchema(schema.items, swaggerDoc, `${path}[${index}]`, name, refStack, depth + 1));
+      }
+      return tuple;
+    }
+
+    if (type === 'array' && schema.items) {
+      // Respect minItems/maxItems, generating at least one item when allowed
+      const count = Math.min(Math.max(schema.minItems ?? 1, 1), schema.maxItems ?? Infinity);
+      return Array.from({ length: count }, (_, index) =>
+        this.generateExampleFromSchema(schema.items, swaggerDoc, `${path}[${index}]`, name, refStack, depth + 1)
+      );
     }
     
     if (schema.allOf) {
       // Merge all schemas in allOf
       const merged: any = {};
       schema.allOf.forEach((subSchema: any) => {
-        const subExample = this.generateExampleFromSchema(subSchema, swaggerDoc, visited);
+        const subExample = this.generateExampleFromSchema(subSchema, swaggerDoc, path, name, refStack, depth);
         if (typeof subExample === 'object' && subExample !== null) {
           Object.assign(merged, subExample);
         }
@@ -740,45 +1806,48 @@ export class SwaggerIntegrationService {
     }
     
     if (schema.oneOf || schema.anyOf) {
-      // Use the first schema in oneOf/anyOf
-      const schemas = schema.oneOf || schema.anyOf;
+      // Use the first schema in oneOf/anyOf, skipping the `{ type: 'null' }` branch of 3.1 nullables
+      const schemas = (schema.oneOf || schema.anyOf).filter((option: any) => option?.type !== 'null');
       if (schemas.length > 0) {
-        return this.generateExampleFromSchema(schemas[0], swaggerDoc, visited);
+        return this.generateExampleFromSchema(schemas[0], swaggerDoc, path, name, refStack, depth);
       }
     }
     
-    // Generate based on type
-    return this.generateExampleForType(schema.type, schema.format, schema.enum);
+    // Generate a primitive that satisfies the schema constraints
+    return this.exampleGeneratorService.generatePrimitive(schema, { name, path });
   }
 
   /**
-   * Generate example for primitive types
+   * Smallest valid example for a schema whose expansion was cut (cycle or max depth):
+   * null when nullable, otherwise an empty array, or an object holding only its required fields,
+   * with `{}` and `[]` placeholders for required objects and arrays
    */
-  private generateExampleForType(type: string, format?: string, enumValues?: string[]): any {
-    if (enumValues && enumValues.length > 0) {
-      return enumValues[0];
+  private generateTruncatedExample(schema: any, swaggerDoc: any, path: string, name?: string): any {
+    if (schema.nullable === true || (Array.isArray(schema.type) && schema.type.includes('null'))) {
+      return null;
     }
-    
-    switch (type) {
-      case 'string':
-        if (format === 'email') return 'user@example.com';
-        if (format === 'date-time') return '2024-01-01T00:00:00Z';
-        if (format === 'date') return '2024-01-01';
-        if (format === 'uuid') return '123e4567-e89b-12d3-a456-426614174000';
-        if (format === 'uri') return 'https://example.com';
-        return 'string';
-      case 'number':
-      case 'integer':
-        return 123;
-      case 'boolean':
-        return true;
-      case 'array':
-        return [];
-      case 'object':
-        return {};
-      default:
-        return null;
+    const type = this.exampleGeneratorService.primaryType(schema);
+    if (type === 'array') {
+      return [];
+    }
+    if (type === 'object' || schema.allOf) {
+      const example: any = {};
+      const properties = schema.properties || {};
+      (schema.required || []).forEach((prop: string) => {
+        const propSchema = properties[prop]?.$ref ? this.resolveSchemaReference(properties[prop].$ref, swaggerDoc) : properties[prop];
+        const propType = this.exampleGeneratorService.primaryType(propSchema);
+        if (!propSchema) {
+          return;
+        }
+        if (propType === 'object' || propType === 'array') {
+          example[prop] = propType === 'array' ? [] : {};
+        } else {
+          example[prop] = this.generateExampleFromSchema(propSchema, swaggerDoc, path ? `${path}.${prop}` : prop, prop);
+        }
+      });
+      return example;
     }
+    return this.exampleGeneratorService.generatePrimitive(schema, { name, path });
   }
 
   /**
@@ -0,0 +1,30 @@
+import * as fs from 'fs';
+import { ThemeService } from './theme.service';
+import { ThemeConfig } from '../interfaces/documentation.interface';
+
+describe('ThemeService', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('generateThemeCSS', () => {
+    it('reads each preset stylesheet once', () => {
+      const service = new ThemeService();
+      const readFileSync = jest.spyOn(fs, 'readFileSync');
+
+      service.generateThemeCSS({ preset: 'postman' });
+      service.generateThemeCSS({ preset: 'postman', mode: 'dark' });
+
+      expect(readFileSync).toHaveBeenCalledTimes(1);
+    });
+
+    it('uses the default stylesheet for unknown presets without caching them', () => {
+      const service = new ThemeService();
+      const expected = service.generateThemeCSS({ preset: 'default' });
+      const readFileSync = jest.spyOn(fs, 'readFileSync');
+
+      ['neon', '../../etc/passwd', 'constructor'].forEach(preset => {
+        expect(service.generateThemeCSS({ preset: preset as ThemeConfig['preset'] })).toBe(expected);
+      });
+      expect(readFileSync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -5,6 +5,9 @@ import * as path from 'path';
 
 @Injectable()
 export class ThemeService {
+  /** Preset stylesheets, read once per process */
+  private readonly cssCache = new Map<string, string>();
+
   private readonly presetThemes: Record<string, ThemeColors> = {
     default: {
       primary: '#3b82f6',
@@ -90,7 +93,7 @@ export class ThemeService {
     const mode = themeConfig?.mode || 'light';
     
     // Start with preset theme
-    let colors: ThemeColors = { ...this.presetThemes[preset] || this.presetThemes.default };
+    let colors: ThemeColors = { ...this.presetThemes[this.isPreset(preset) ? preset : 'default'] };
     
     // Apply dark mode overrides if needed
     if (mode === 'dark') {
@@ -109,6 +112,19 @@ export class ThemeService {
    * Load the enhanced CSS from the assets folder based on theme preset
    */
   private loadEnhancedCSS(preset: string = 'default'): string {
+    // Unknown presets use the default stylesheet, so the cache holds one entry per known preset
+    const name = this.isPreset(preset) ? preset : 'default';
+    if (!this.cssCache.has(name)) {
+      this.cssCache.set(name, this.readEnhancedCSS(name));
+    }
+    return this.cssCache.get(name);
+  }
+
+  private isPreset(preset: string): boolean {
+    return Object.keys(this.presetThemes).includes(preset);
+  }
+
+  private readEnhancedCSS(preset: string): string {
     try {
       // Map preset to CSS file name
       const cssFileName = preset === 'custom' ? 'default.css' : `${preset}.css`;
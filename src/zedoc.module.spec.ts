@@ -0,0 +1,56 @@
+import { Module } from '@nestjs/common';
+import { PATH_METADATA } from '@nestjs/common/constants';
+import { DiscoveryService } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ZedocModule, getSwaggerIntegrationToken, getDocumentationServiceToken } from './zedoc.module';
+import { SwaggerIntegrationService } from './services/swagger-integration.service';
+import { DocumentationService } from './services/documentation.service';
+
+describe('ZedocModule', () => {
+  const document = (title: string) => ({ openapi: '3.0.3', info: { title, version: '1.0.0' }, paths: {} });
+
+  let moduleRef: TestingModule;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    @Module({ imports: [ZedocModule.forRoot({ name: 'internal', path: '/internal-docs/', title: 'Internal API' })] })
+    class InternalDocsModule {}
+
+    moduleRef = await Test.createTestingModule({
+      imports: [ZedocModule.forRoot({ path: 'docs', title: 'Public API' }), InternalDocsModule],
+    }).compile();
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+    jest.restoreAllMocks();
+  });
+
+  const mountPaths = () => moduleRef.get(DiscoveryService).getControllers()
+    .map(wrapper => Reflect.getMetadata(PATH_METADATA, wrapper.metatype))
+    .sort();
+
+  it('mounts each instance at its own path', () => {
+    expect(mountPaths()).toEqual(['docs', 'internal-docs']);
+  });
+
+  it('gives each instance its own services', () => {
+    const publicDocs = moduleRef.get<SwaggerIntegrationService>(getSwaggerIntegrationToken('default'));
+    const internalDocs = moduleRef.get<SwaggerIntegrationService>(getSwaggerIntegrationToken('internal'));
+
+    expect(publicDocs).toBeInstanceOf(SwaggerIntegrationService);
+    expect(internalDocs).toBeInstanceOf(SwaggerIntegrationService);
+    expect(internalDocs).not.toBe(publicDocs);
+    expect(moduleRef.get<DocumentationService>(getDocumentationServiceToken('internal')).getConfig().title).toBe('Internal API');
+    expect(moduleRef.get<DocumentationService>(getDocumentationServiceToken('default')).getConfig().title).toBe('Public API');
+  });
+
+  it('routes static helpers to the named instance', async () => {
+    ZedocModule.setSwaggerDocument(moduleRef, document('Public'));
+    ZedocModule.setSwaggerDocument(moduleRef, document('Internal'), 'internal');
+
+    expect((await moduleRef.get<SwaggerIntegrationService>(getSwaggerIntegrationToken('default')).getSwaggerDocument()).info.title).toBe('Public');
+    expect((await moduleRef.get<SwaggerIntegrationService>(getSwaggerIntegrationToken('internal')).getSwaggerDocument()).info.title).toBe('Internal');
+  });
+});
@@ -1,4 +1,5 @@
-import { Module, DynamicModule } from '@nestjs/common';
+import { Module, DynamicModule, Provider, Type } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { DocumentationService } from './services/documentation.service';
 import { SwaggerIntegrationService } from './services/swagger-integration.service';
 import { ThemeService } from './services/theme.service';
@@ -6,9 +7,55 @@ import { SidebarService } from './services/sidebar.service';
 import { FontService } from './services/font.service';
 import { EnvironmentService } from './services/environment.service';
 import { BrandingService } from './services/branding.service';
-import { DocumentationController } from './controllers/documentation.controller';
-import { DocumentationConfig } from './interfaces/documentation.interface';
-import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { SpecLoaderService } from './services/spec-loader.service';
+import { RefResolverService } from './services/ref-resolver.service';
+import { SpecAggregatorService } from './services/spec-aggregator.service';
+import { SpecValidatorService } from './services/spec-validator.service';
+import { MediaTypeService } from './services/media-type.service';
+import { ExampleGeneratorService } from './services/example-generator.service';
+import { SchemaService } from './services/schema.service';
+import { SectionGroupingService } from './services/section-grouping.service';
+import { SpecDiffService } from './services/spec-diff.service';
+import { ApiDocDiscoveryService } from './services/api-doc-discovery.service';
+import { RouteDocumentService } from './services/route-document.service';
+import { DocumentFilterService } from './services/document-filter.service';
+import { DocumentationController, createDocumentationController } from './controllers/documentation.controller';
+import { DocumentationConfig, SwaggerSourceOptions, SwaggerSourceRegistration, ApiVersionRegistration } from './interfaces/documentation.interface';
+
+const DEFAULT_MOUNT_PATH = 'zedoc';
+const DEFAULT_INSTANCE = 'default';
+
+const ZEDOC_SERVICES = [
+  DocumentationService,
+  SwaggerIntegrationService,
+  ThemeService,
+  SidebarService,
+  FontService,
+  EnvironmentService,
+  BrandingService,
+  SpecLoaderService,
+  RefResolverService,
+  SpecAggregatorService,
+  SpecValidatorService,
+  MediaTypeService,
+  ExampleGeneratorService,
+  SchemaService,
+  SectionGroupingService,
+  SpecDiffService,
+  ApiDocDiscoveryService,
+  RouteDocumentService,
+  DocumentFilterService,
+];
+
+/**
+ * Token of the SwaggerIntegrationService of an instance (`default` for the unnamed one)
+ */
+export const getSwaggerIntegrationToken = (name: string) => `ZEDOC_SWAGGER_INTEGRATION:${name}`;
+
+/**
+ * Token of the DocumentationService of an instance (`default` for the unnamed one)
+ */
+export const getDocumentationServiceToken = (name: string) => `ZEDOC_DOCUMENTATION_SERVICE:${name}`;
 
 @Module({})
 export class ZedocModule {
@@ -22,60 +69,68 @@ export class ZedocModule {
   }
 
   static forRoot(config?: DocumentationConfig): DynamicModule {
-    return {
-      module: ZedocModule,
-      providers: [
-        DocumentationService,
-        SwaggerIntegrationService,
-        ThemeService,
-        SidebarService,
-        FontService,
-        EnvironmentService,
-        BrandingService,
-        {
-          provide: 'DOCUMENTATION_CONFIG',
-          useValue: config || {},
-        },
-      ],
-      controllers: [DocumentationController],
-      exports: [DocumentationService, SwaggerIntegrationService, ThemeService, SidebarService, FontService, EnvironmentService, BrandingService],
-      global: true,
-    };
+    return ZedocModule.createModule(
+      { provide: 'DOCUMENTATION_CONFIG', useValue: config || {} },
+      config?.name,
+      config?.path,
+    );
   }
 
   static forRootAsync(options: {
     useFactory: (...args: any[]) => DocumentationConfig | Promise<DocumentationConfig>;
     inject?: any[];
+    /** Instance name, see `DocumentationConfig.name` */
+    name?: string;
+    /** Mount path, see `DocumentationConfig.path` (the route is known before the factory runs) */
+    path?: string;
   }): DynamicModule {
+    return ZedocModule.createModule(
+      { provide: 'DOCUMENTATION_CONFIG', useFactory: options.useFactory, inject: options.inject || [] },
+      options.name,
+      options.path,
+    );
+  }
+
+  /**
+   * The default instance is global; named instances keep their services to themselves.
+   * Every instance exposes its SwaggerIntegrationService and DocumentationService under its own tokens.
+   */
+  private static createModule(configProvider: Provider, name?: string, path?: string): DynamicModule {
+    const mountPath = (path || DEFAULT_MOUNT_PATH).replace(/^\/+|\/+$/g, '');
+    const instanceProviders: Provider[] = [
+      { provide: getSwaggerIntegrationToken(name || DEFAULT_INSTANCE), useExisting: SwaggerIntegrationService },
+      { provide: getDocumentationServiceToken(name || DEFAULT_INSTANCE), useExisting: DocumentationService },
+    ];
+    const instanceTokens = instanceProviders.map(provider => (provider as { provide: string }).provide);
+
     return {
       module: ZedocModule,
+      imports: [DiscoveryModule],
       providers: [
-        DocumentationService,
-        SwaggerIntegrationService,
-        ThemeService,
-        SidebarService,
-        FontService,
-        EnvironmentService,
-        BrandingService,
-        {
-          provide: 'DOCUMENTATION_CONFIG',
-          useFactory: options.useFactory,
-          inject: options.inject || [],
-        },
+        ...ZEDOC_SERVICES,
+        ...instanceProviders,
+        configProvider,
       ],
-      controllers: [DocumentationController],
-      exports: [DocumentationService, SwaggerIntegrationService, ThemeService, SidebarService, FontService, EnvironmentService, BrandingService],
-      global: true,
+      controllers: [mountPath === DEFAULT_MOUNT_PATH ? DocumentationController : createDocumentationController(mountPath)],
+      exports: name ? instanceTokens : [...ZEDOC_SERVICES, ...instanceTokens],
+      global: !name,
     };
   }
 
+  /**
+   * Get a service of the default instance, or of a named one
+   */
+  private static resolve<T>(app: any, service: Type<T>, instance = DEFAULT_INSTANCE): T {
+    return app.get(service === DocumentationService ? getDocumentationServiceToken(instance) : getSwaggerIntegrationToken(instance));
+  }
+
   /**
    * Helper method to set the Swagger document (for Swagger mode)
    * Call this after setting up Swagger in your application
    */
-  static setSwaggerDocument(app: any, document: any): void {
+  static setSwaggerDocument(app: any, document: any, instance?: string): void {
     try {
-      const swaggerService = app.get(SwaggerIntegrationService);
+      const swaggerService = ZedocModule.resolve(app, SwaggerIntegrationService, instance);
       if (swaggerService) {
         swaggerService.setSwaggerDocument(document);
         console.log('✅ Swagger document set for Zedoc');
@@ -87,15 +142,11 @@ export class ZedocModule {
 
   /**
    * Helper method to set Swagger document from URL or file path
-   * Call this to load external Swagger documents
+   * Call this to load external Swagger documents (JSON or YAML)
    */
-  static async setSwaggerJson(app: any, source: string, config: DocumentationConfig, options?: {
-    timeout?: number;
-    headers?: Record<string, string>;
-    encoding?: BufferEncoding;
-  }): Promise<void> {
+  static async setSwaggerJson(app: any, source: string, config: DocumentationConfig, options?: SwaggerSourceOptions, instance?: string): Promise<void> {
     try {
-      const swaggerService = app.get(SwaggerIntegrationService);
+      const swaggerService = ZedocModule.resolve(app, SwaggerIntegrationService, instance);
       if (swaggerService) {
         await swaggerService.setSwaggerJson(source, options);
         console.log('✅ Swagger document loaded from external source for Zedoc');
@@ -106,13 +157,64 @@ export class ZedocModule {
     }
   }
 
+  /**
+   * Helper method to register a named service spec (URL, file path or document object)
+   * Every registered service is aggregated into the same portal
+   */
+  static async registerSource(app: any, name: string, source: any, options?: SwaggerSourceRegistration, instance?: string): Promise<void> {
+    try {
+      const swaggerService = ZedocModule.resolve(app, SwaggerIntegrationService, instance);
+      if (swaggerService) {
+        await swaggerService.registerSource(name, source, options);
+        console.log(`✅ Service "${name}" registered for Zedoc`);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not register service "${name}" for Zedoc:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Helper method to register a version of the API (URL, file path or document object)
+   * Each version is served at `<docs path>/<version>` with a version selector
+   */
+  static async registerVersion(app: any, version: string, source: any, options?: ApiVersionRegistration, instance?: string): Promise<void> {
+    try {
+      const swaggerService = ZedocModule.resolve(app, SwaggerIntegrationService, instance);
+      if (swaggerService) {
+        await swaggerService.registerVersion(version, source, options);
+        console.log(`✅ API version "${version}" registered for Zedoc`);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not register API version "${version}" for Zedoc:`, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Helper method to set the previous release of the spec (URL, file path or document object)
+   * The docs then show a Changelog against it
+   */
+  static async setPreviousDocument(app: any, source: any, options?: SwaggerSourceOptions, instance?: string): Promise<void> {
+    try {
+      const swaggerService = ZedocModule.resolve(app, SwaggerIntegrationService, instance);
+      if (swaggerService) {
+        await swaggerService.setPreviousDocument(source, options);
+        console.log('✅ Previous Swagger document set for the Zedoc changelog');
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not set previous Swagger document for Zedoc:', error.message);
+      throw error;
+    }
+  }
+
   /**
    * Helper method to configure structured documentation (for structured mode)
    * Call this to update the configuration at runtime
    */
-  static configure(app: any, config: DocumentationConfig): void {
+  static configure(app: any, config: DocumentationConfig, instance?: string): void {
     try {
-      const documentationService = app.get(DocumentationService);
+      const documentationService = ZedocModule.resolve(app, DocumentationService, instance);
       if (documentationService) {
         documentationService.setConfig(config);
         console.log('✅ Zedoc configuration updated');
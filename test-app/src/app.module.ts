@@ -7,6 +7,7 @@ import { UsersController } from './users.controller';
 @Module({
   imports: [
     ZedocModule.forRoot({
+      path: 'docs',
       title: 'Auto-Structured API Documentation',
       description: 'Demonstrating automatic conversion of Swagger ApiTags to sections and ApiOperation summaries to modules',
       version: '3.0.0',